@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { Routes, Route, Navigate } from 'react-router-dom'
 import { blink } from './blink/client'
 import { Dashboard } from './components/Dashboard'
 import { TasksPage } from './components/TasksPage'
@@ -6,21 +7,24 @@ import { ProjectsPage } from './components/ProjectsPage'
 import { TeamPage } from './components/TeamPage'
 import { SettingsPage } from './components/SettingsPage'
 import { ProfilePage } from './components/ProfilePage'
+import { SearchPage } from './components/SearchPage'
+import { TrashPage } from './components/TrashPage'
 import { Sidebar } from './components/Sidebar'
 import { Header } from './components/Header'
+import { CommandPaletteProvider } from './components/CommandPalette'
 import { Toaster } from './components/ui/toaster'
-
-type Page = 'dashboard' | 'tasks' | 'projects' | 'team' | 'settings' | 'profile'
+import { routes } from './lib/routes'
+import { runMigrations } from './data'
 
 function App() {
   const [user, setUser] = useState(null)
   const [loading, setLoading] = useState(true)
-  const [currentPage, setCurrentPage] = useState<Page>('dashboard')
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
+      if (state.user) runMigrations(state.user.id)
     })
     return unsubscribe
   }, [])
@@ -66,38 +70,34 @@ function App() {
     )
   }
 
-  const renderPage = () => {
-    switch (currentPage) {
-      case 'dashboard':
-        return <Dashboard />
-      case 'tasks':
-        return <TasksPage />
-      case 'projects':
-        return <ProjectsPage />
-      case 'team':
-        return <TeamPage />
-      case 'settings':
-        return <SettingsPage />
-      case 'profile':
-        return <ProfilePage />
-      default:
-        return <Dashboard />
-    }
-  }
-
   return (
-    <div className="min-h-screen bg-background">
-      <div className="flex">
-        <Sidebar currentPage={currentPage} onPageChange={setCurrentPage} />
-        <div className="flex-1 flex flex-col min-h-screen">
-          <Header user={user} />
-          <main className="flex-1 p-6">
-            {renderPage()}
-          </main>
+    <CommandPaletteProvider>
+      <div className="min-h-screen bg-background">
+        <div className="flex">
+          <Sidebar />
+          <div className="flex-1 flex flex-col min-h-screen">
+            <Header user={user} />
+            <main className="flex-1 p-6">
+              <Routes>
+                <Route path={routes.dashboard} element={<Dashboard />} />
+                <Route path={routes.tasks} element={<TasksPage />} />
+                <Route path={`${routes.tasks}/:taskId`} element={<TasksPage />} />
+                <Route path={routes.projects} element={<ProjectsPage />} />
+                <Route path={`${routes.projects}/:projectId`} element={<TasksPage />} />
+                <Route path={`${routes.projects}/:projectId/tasks/:taskId`} element={<TasksPage />} />
+                <Route path={routes.team} element={<TeamPage />} />
+                <Route path={routes.settings} element={<SettingsPage />} />
+                <Route path={routes.profile} element={<ProfilePage />} />
+                <Route path={routes.search} element={<SearchPage />} />
+                <Route path={routes.trash} element={<TrashPage />} />
+                <Route path="*" element={<Navigate to={routes.dashboard} replace />} />
+              </Routes>
+            </main>
+          </div>
         </div>
+        <Toaster />
       </div>
-      <Toaster />
-    </div>
+    </CommandPaletteProvider>
   )
 }
 
@@ -0,0 +1,128 @@
+import { Avatar, AvatarFallback } from './ui/avatar'
+import { ArrowRight } from 'lucide-react'
+import { format, formatDistanceToNow, parseISO } from 'date-fns'
+import { useLabels } from '../hooks/use-labels'
+import { describeRecurrence } from '../lib/recurrence'
+import { countTasks, formatEstimate } from '../lib/task-display'
+import { statusName, type FieldChange, type Project, type Task, type TaskActivity, type TrackedTaskField } from '../data'
+
+const FIELD_LABELS: Record<TrackedTaskField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  start_date: 'Start date',
+  due_date: 'Due date',
+  estimate: 'Estimate',
+  assignee_email: 'Assignee',
+  project_id: 'Project',
+  label_ids: 'Labels',
+  blocked_by: 'Blocked by',
+  recurrence: 'Repeat',
+}
+
+const ACTION_LABELS: Record<TaskActivity['action'], string> = {
+  created: 'created',
+  updated: 'changed',
+  deleted: 'moved to the trash',
+  restored: 'restored',
+}
+
+interface ActivityTimelineProps {
+  entries: TaskActivity[]
+  // Used to show project names instead of ids
+  projects?: Project[]
+  // Used to show the titles of blocking tasks instead of ids
+  tasks?: Task[]
+  // Name the task in every entry, for timelines spanning several tasks
+  showTask?: boolean
+}
+
+export function ActivityTimeline({ entries, projects = [], tasks = [], showTask = false }: ActivityTimelineProps) {
+  const { labels } = useLabels()
+
+  // Names of the ids in a list change; ones that cannot be named are counted instead
+  const formatIds = (ids: string[], name: (id: string) => string | undefined, count: (missing: number) => string) => {
+    const names = ids.flatMap(id => name(id) ?? [])
+    const missing = ids.length - names.length
+    return [...names, ...(missing > 0 ? [count(missing)] : [])].join(', ')
+  }
+
+  const formatValue = (field: TrackedTaskField, value: string | undefined) => {
+    if (!value) return 'none'
+    switch (field) {
+      case 'status': return statusName(value, projects)
+      case 'start_date':
+      case 'due_date': return format(parseISO(value), 'MMM d, yyyy')
+      case 'project_id': return projects.find(project => project.id === value)?.name ?? 'a deleted project'
+      case 'assignee_email': return value.split('@')[0]
+      case 'estimate': return formatEstimate(Number(value))
+      case 'label_ids':
+        return formatIds(
+          value.split(','),
+          id => labels.find(label => label.id === id)?.name,
+          missing => `${missing} deleted ${missing === 1 ? 'label' : 'labels'}`
+        )
+      case 'blocked_by':
+        return formatIds(value.split(','), id => {
+          const task = tasks.find(t => t.id === id)
+          return task && `"${task.title}"`
+        }, missing => `${countTasks(missing)} not shown`)
+      case 'recurrence': return describeRecurrence(value) ?? value
+      case 'description': return value.length > 60 ? `${value.slice(0, 60)}…` : value
+      default: return value
+    }
+  }
+
+  const renderChange = (change: FieldChange) => (
+    <li key={change.field} className="flex flex-wrap items-center gap-1">
+      <span className="font-medium">{FIELD_LABELS[change.field]}:</span>
+      {change.from !== undefined && (
+        <>
+          <span className="line-through">{formatValue(change.field, change.from)}</span>
+          <ArrowRight className="w-3 h-3" />
+        </>
+      )}
+      <span className="text-foreground">{formatValue(change.field, change.to)}</span>
+    </li>
+  )
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No activity yet.</p>
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => {
+        const actor = entry.actor_email?.split('@')[0] ?? 'Someone'
+        // A new task lists every field it was created with; only the interesting ones are worth repeating
+        const changes = entry.action === 'created'
+          ? entry.changes.filter(change => change.field !== 'title' && change.field !== 'description')
+          : entry.changes
+
+        return (
+          <li key={entry.id} className="flex space-x-3">
+            <Avatar className="w-6 h-6">
+              <AvatarFallback className="text-xs">{actor.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 space-y-1">
+              <p className="text-sm">
+                <span className="font-medium">{actor}</span>
+                {' '}{ACTION_LABELS[entry.action]}
+                {showTask && <> <span className="font-medium">"{entry.task_title}"</span></>}
+                <span className="text-xs text-muted-foreground ml-2" title={format(parseISO(entry.created_at), 'PPpp')}>
+                  {formatDistanceToNow(parseISO(entry.created_at), { addSuffix: true })}
+                </span>
+              </p>
+              {changes.length > 0 && (
+                <ul className="space-y-0.5 text-xs text-muted-foreground">
+                  {changes.map(renderChange)}
+                </ul>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
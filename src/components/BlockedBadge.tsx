@@ -0,0 +1,22 @@
+import { Badge } from './ui/badge'
+import { Lock } from 'lucide-react'
+import type { Task } from '../data'
+
+interface BlockedBadgeProps {
+  // Unfinished tasks the card's task is waiting on; nothing is shown without any
+  blockers: Task[]
+}
+
+export function BlockedBadge({ blockers }: BlockedBadgeProps) {
+  if (blockers.length === 0) return null
+
+  return (
+    <Badge
+      className="bg-orange-100 text-orange-800 border-orange-200"
+      title={`Blocked by ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}`}
+    >
+      <Lock className="w-3 h-3 mr-1" />
+      Blocked
+    </Badge>
+  )
+}
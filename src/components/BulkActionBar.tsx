@@ -0,0 +1,213 @@
+import { useState } from 'react'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog'
+import { Calendar, Trash2, X } from 'lucide-react'
+import { countTasks } from '../lib/task-display'
+import {
+  TRASH_RETENTION_DAYS,
+  dueDateUpdates,
+  statusFields,
+  type Project,
+  type Task,
+  type TaskInput,
+  type TaskPriority,
+  type TeamMember,
+  type WorkflowStatus,
+} from '../data'
+
+interface BulkActionBarProps {
+  count: number
+  projects: Project[]
+  // Offered in the status menu; tasks from other workflows get the status of the same category
+  statuses: WorkflowStatus[]
+  teamMembers: TeamMember[]
+  // `summary` describes the change for the result toast, e.g. "Marked 3 tasks as Done";
+  // `updates` can be worked out per task, for changes that depend on the task's own values
+  onUpdate: (updates: TaskInput | ((task: Task) => TaskInput), summary: (count: number) => string) => void
+  onMove: (projectId: string | undefined) => void
+  onDelete: () => void
+  onClear: () => void
+}
+
+export function BulkActionBar({
+  count,
+  projects,
+  statuses,
+  teamMembers,
+  onUpdate,
+  onMove,
+  onDelete,
+  onClear,
+}: BulkActionBarProps) {
+  const [dueDate, setDueDate] = useState('')
+  const [dueDateOpen, setDueDateOpen] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const applyDueDate = (value: string) => {
+    setDueDateOpen(false)
+    setDueDate('')
+    onUpdate(
+      task => dueDateUpdates(task, value || undefined),
+      n => value ? `Set the due date of ${countTasks(n)}` : `Cleared the due date of ${countTasks(n)}`
+    )
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-3 flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          {count} selected
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value=""
+            onValueChange={(value) => {
+              const status = statuses.find(s => s.id === value)
+              if (status) onUpdate(statusFields(status), n => `Marked ${countTasks(n)} as ${status.name}`)
+            }}
+          >
+            <SelectTrigger className="h-8 w-[130px]">
+              <SelectValue placeholder="Status..." />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map((status) => (
+                <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            onValueChange={(value: TaskPriority) => onUpdate(
+              { priority: value },
+              n => `Set ${countTasks(n)} to ${value} priority`
+            )}
+          >
+            <SelectTrigger className="h-8 w-[130px]">
+              <SelectValue placeholder="Priority..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            onValueChange={(value) => {
+              const member = teamMembers.find(m => m.id === value)
+              onUpdate(
+                { assignee_id: member?.id, assignee_email: member?.email },
+                n => member
+                  ? `Assigned ${countTasks(n)} to ${member.display_name || member.email}`
+                  : `Unassigned ${countTasks(n)}`
+              )
+            }}
+          >
+            <SelectTrigger className="h-8 w-[150px]">
+              <SelectValue placeholder="Assignee..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {teamMembers.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.display_name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            onValueChange={(value) => onMove(value === 'none' ? undefined : value)}
+          >
+            <SelectTrigger className="h-8 w-[170px]">
+              <SelectValue placeholder="Move to project..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No project</SelectItem>
+              {projects.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover open={dueDateOpen} onOpenChange={setDueDateOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8">
+                <Calendar className="w-4 h-4 mr-1" />
+                Due date
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-2" align="end">
+              <Input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                aria-label="Due date"
+              />
+              <div className="flex justify-between">
+                <Button variant="ghost" size="sm" onClick={() => applyDueDate('')}>
+                  Clear date
+                </Button>
+                <Button size="sm" disabled={!dueDate} onClick={() => applyDueDate(dueDate)}>
+                  Apply
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-destructive hover:text-destructive"
+            onClick={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+
+          <Button variant="ghost" size="sm" className="h-8" onClick={onClear}>
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {countTasks(count)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They are moved to the trash with their subtasks and can be restored for {TRASH_RETENTION_DAYS} days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
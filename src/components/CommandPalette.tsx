@@ -0,0 +1,203 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { defaultFilter } from 'cmdk'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from './ui/command'
+import {
+  LayoutDashboard,
+  CheckSquare,
+  FolderOpen,
+  Users,
+  Trash2,
+  Settings,
+  User,
+  Plus,
+  UserPlus,
+  Moon,
+  Clock,
+} from 'lucide-react'
+import { blink } from '../blink/client'
+import { routes, taskPath, projectPath } from '../lib/routes'
+import { useTheme } from '../hooks/use-theme'
+import { useUserPreference } from '../hooks/use-user-preference'
+import { CommandsContext, type PaletteCommand } from '../hooks/use-commands'
+import { listTasks, listProjects, type Task, type Project } from '../data'
+
+const MAX_RECENT = 5
+
+// Matches count more when the command was used recently, so it sorts above the rest
+const RECENT_BOOST = 0.5
+
+export function CommandPaletteProvider({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [recentIds, setRecentIds] = useUserPreference<string[]>('commandPalette.recent', [])
+  const pageCommands = useRef(new Map<symbol, PaletteCommand[]>())
+  const navigate = useNavigate()
+  const { toggleTheme } = useTheme()
+
+  const register = useCallback((commands: PaletteCommand[]) => {
+    const key = Symbol('commands')
+    pageCommands.current.set(key, commands)
+    return () => {
+      pageCommands.current.delete(key)
+    }
+  }, [])
+
+  const contextValue = useMemo(() => ({ register, setOpen }), [register])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(prev => !prev)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const loadSearchables = useCallback(async () => {
+    try {
+      const user = await blink.auth.me()
+      const [allTasks, allProjects] = await Promise.all([
+        listTasks(user.id),
+        listProjects(user.id),
+      ])
+      setTasks(allTasks)
+      setProjects(allProjects)
+    } catch (error) {
+      console.error('Failed to load command palette items:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      setSearch('')
+      loadSearchables()
+    }
+  }, [open, loadSearchables])
+
+  const globalCommands: PaletteCommand[] = [
+    { id: 'nav:dashboard', label: 'Go to Dashboard', group: 'Navigation', icon: LayoutDashboard, run: () => navigate(routes.dashboard) },
+    { id: 'nav:tasks', label: 'Go to Tasks', group: 'Navigation', icon: CheckSquare, run: () => navigate(routes.tasks) },
+    { id: 'nav:projects', label: 'Go to Projects', group: 'Navigation', icon: FolderOpen, run: () => navigate(routes.projects) },
+    { id: 'nav:team', label: 'Go to Team', group: 'Navigation', icon: Users, run: () => navigate(routes.team) },
+    { id: 'nav:trash', label: 'Go to Trash', group: 'Navigation', icon: Trash2, keywords: ['deleted', 'restore'], run: () => navigate(routes.trash) },
+    { id: 'nav:settings', label: 'Go to Settings', group: 'Navigation', icon: Settings, keywords: ['preferences'], run: () => navigate(routes.settings) },
+    { id: 'nav:profile', label: 'Go to Profile', group: 'Navigation', icon: User, keywords: ['account'], run: () => navigate(routes.profile) },
+    // Pages pick these up from the navigation state and open their dialogs
+    { id: 'action:new-task', label: 'New task', group: 'Actions', icon: Plus, keywords: ['create', 'add'], run: () => navigate(routes.tasks, { state: { newTask: true } }) },
+    { id: 'action:invite-member', label: 'Invite member', group: 'Actions', icon: UserPlus, keywords: ['team', 'teammate'], run: () => navigate(routes.team, { state: { invite: true } }) },
+    { id: 'action:toggle-theme', label: 'Toggle dark mode', group: 'Actions', icon: Moon, keywords: ['theme', 'light'], run: toggleTheme },
+  ]
+
+  const itemCommands: PaletteCommand[] = [
+    ...tasks.map(task => ({
+      id: `task:${task.id}`,
+      label: task.title,
+      group: 'Tasks',
+      icon: CheckSquare,
+      run: () => navigate(taskPath(task.id)),
+    })),
+    ...projects.map(project => ({
+      id: `project:${project.id}`,
+      label: project.name,
+      group: 'Projects',
+      icon: FolderOpen,
+      run: () => navigate(projectPath(project.id)),
+    })),
+  ]
+
+  // Page commands win over global ones with the same id
+  const commandsById = new Map<string, PaletteCommand>()
+  for (const command of [...globalCommands, ...[...pageCommands.current.values()].flat(), ...itemCommands]) {
+    commandsById.set(command.id, command)
+  }
+  const commands = [...commandsById.values()]
+
+  const recentCommands = recentIds
+    .map(id => commandsById.get(id))
+    .filter((command): command is PaletteCommand => !!command)
+
+  // Tasks and projects only show up once the user starts typing
+  const visible = commands.filter(command =>
+    search || (command.group !== 'Tasks' && command.group !== 'Projects')
+  )
+  const groups = [...new Set(visible.map(command => command.group))]
+
+  const runCommand = (command: PaletteCommand) => {
+    setOpen(false)
+    setRecentIds([command.id, ...recentIds.filter(id => id !== command.id)].slice(0, MAX_RECENT))
+    command.run()
+  }
+
+  const filter = (value: string, query: string, keywords?: string[]) => {
+    const score = defaultFilter(keywords?.join(' ') ?? '', query)
+    return score > 0 && recentIds.includes(value) ? score + RECENT_BOOST : score
+  }
+
+  const renderItem = (command: PaletteCommand) => {
+    const Icon = command.icon
+    return (
+      <CommandItem
+        key={command.id}
+        value={command.id}
+        keywords={[command.label, ...(command.keywords ?? [])]}
+        onSelect={() => runCommand(command)}
+      >
+        {Icon && <Icon className="mr-2" />}
+        <span className="truncate">{command.label}</span>
+      </CommandItem>
+    )
+  }
+
+  return (
+    <CommandsContext.Provider value={contextValue}>
+      {children}
+      <CommandDialog open={open} onOpenChange={setOpen} filter={filter}>
+        <CommandInput
+          placeholder="Type a command or search..."
+          value={search}
+          onValueChange={setSearch}
+        />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+          {!search && recentCommands.length > 0 && (
+            <>
+              <CommandGroup heading="Recent">
+                {recentCommands.map(command => (
+                  <CommandItem
+                    key={`recent:${command.id}`}
+                    value={`recent:${command.id}`}
+                    onSelect={() => runCommand(command)}
+                  >
+                    <Clock className="mr-2" />
+                    <span className="truncate">{command.label}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              <CommandSeparator />
+            </>
+          )}
+          {groups.map(group => (
+            <CommandGroup key={group} heading={group}>
+              {visible
+                .filter(command => command.group === group)
+                .map(renderItem)}
+            </CommandGroup>
+          ))}
+        </CommandList>
+      </CommandDialog>
+    </CommandsContext.Provider>
+  )
+}
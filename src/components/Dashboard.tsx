@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Button } from './ui/button'
@@ -10,21 +11,12 @@ import {
   Plus,
   Calendar
 } from 'lucide-react'
+import { LabelChips } from './LabelChips'
 import { blink } from '../blink/client'
 import { format } from 'date-fns'
-
-interface Task {
-  id: string
-  title: string
-  description?: string
-  status: 'todo' | 'in_progress' | 'done'
-  priority: 'low' | 'medium' | 'high'
-  due_date?: string
-  project_id?: string
-  user_id: string
-  created_at: string
-  updated_at: string
-}
+import { routes, taskPath } from '../lib/routes'
+import { getPriorityColor, getStatusColor } from '../lib/task-display'
+import { isOverdue, listTasks, statusLabel, type Task } from '../data'
 
 interface Stats {
   total: number
@@ -41,11 +33,7 @@ export function Dashboard() {
   const loadDashboardData = async () => {
     try {
       const user = await blink.auth.me()
-      const allTasks = await blink.db.tasks.list({
-        where: { user_id: user.id },
-        orderBy: { created_at: 'desc' },
-        limit: 10
-      })
+      const allTasks = await listTasks(user.id, { limit: 10 })
 
       setTasks(allTasks)
 
@@ -53,11 +41,9 @@ export function Dashboard() {
       const now = new Date()
       const stats = {
         total: allTasks.length,
-        completed: allTasks.filter(t => t.status === 'done').length,
-        inProgress: allTasks.filter(t => t.status === 'in_progress').length,
-        overdue: allTasks.filter(t => 
-          t.due_date && new Date(t.due_date) < now && t.status !== 'done'
-        ).length
+        completed: allTasks.filter(t => t.status_category === 'done').length,
+        inProgress: allTasks.filter(t => t.status_category === 'active').length,
+        overdue: allTasks.filter(t => isOverdue(t, now)).length
       }
       setStats(stats)
     } catch (error) {
@@ -71,24 +57,6 @@ export function Dashboard() {
     loadDashboardData()
   }, [])
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'high': return 'bg-red-100 text-red-800 border-red-200'
-      case 'medium': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
-      case 'low': return 'bg-green-100 text-green-800 border-green-200'
-      default: return 'bg-gray-100 text-gray-800 border-gray-200'
-    }
-  }
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'done': return 'bg-green-100 text-green-800 border-green-200'
-      case 'in_progress': return 'bg-blue-100 text-blue-800 border-blue-200'
-      case 'todo': return 'bg-gray-100 text-gray-800 border-gray-200'
-      default: return 'bg-gray-100 text-gray-800 border-gray-200'
-    }
-  }
-
   if (loading) {
     return (
       <div className="space-y-6">
@@ -176,7 +144,9 @@ export function Dashboard() {
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             Recent Tasks
-            <Button variant="outline" size="sm">View All</Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to={routes.tasks}>View All</Link>
+            </Button>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -196,17 +166,20 @@ export function Dashboard() {
                 <div key={task.id} className="flex items-center justify-between p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors">
                   <div className="flex-1">
                     <div className="flex items-center space-x-3 mb-2">
-                      <h4 className="font-medium text-foreground">{task.title}</h4>
+                      <Link to={taskPath(task.id)} className="font-medium text-foreground hover:underline">
+                        {task.title}
+                      </Link>
                       <Badge className={getPriorityColor(task.priority)}>
                         {task.priority}
                       </Badge>
-                      <Badge className={getStatusColor(task.status)}>
-                        {task.status.replace('_', ' ')}
+                      <Badge className={getStatusColor(task.status_category)}>
+                        {statusLabel(task)}
                       </Badge>
                     </div>
                     {task.description && (
                       <p className="text-sm text-muted-foreground mb-2">{task.description}</p>
                     )}
+                    <LabelChips labelIds={task.label_ids} className="mb-2" />
                     <div className="flex items-center space-x-4 text-xs text-muted-foreground">
                       <span>Created {format(new Date(task.created_at), 'MMM d, yyyy')}</span>
                       {task.due_date && (
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { countTasks } from '../lib/task-display'
+import { TRASH_RETENTION_DAYS, type Project } from '../data'
+
+// What happens to the tasks of a deleted project
+export type ProjectTasksChoice =
+  | { action: 'trash' }
+  | { action: 'keep' }
+  | { action: 'move'; projectId: string }
+
+interface DeleteProjectDialogProps {
+  project: Project | null
+  taskCount: number
+  // Other projects the tasks can be moved to
+  projects: Project[]
+  onOpenChange: (open: boolean) => void
+  onConfirm: (project: Project, choice: ProjectTasksChoice) => void
+}
+
+export function DeleteProjectDialog({ project, taskCount, projects, onOpenChange, onConfirm }: DeleteProjectDialogProps) {
+  const [action, setAction] = useState<ProjectTasksChoice['action']>('trash')
+  const [targetId, setTargetId] = useState('')
+  const targets = projects.filter(p => p.id !== project?.id)
+
+  useEffect(() => {
+    setAction('trash')
+    setTargetId('')
+  }, [project])
+
+  const handleConfirm = () => {
+    if (!project) return
+    onConfirm(project, action === 'move' ? { action, projectId: targetId } : { action })
+  }
+
+  return (
+    <AlertDialog open={!!project} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete "{project?.name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The project is moved to the trash, where it can be restored for {TRASH_RETENTION_DAYS} days.
+            {taskCount > 0 && ` It has ${countTasks(taskCount)}.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {taskCount > 0 && (
+          <RadioGroup
+            value={action}
+            onValueChange={(value) => setAction(value as ProjectTasksChoice['action'])}
+            className="space-y-1"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="trash" id="project-tasks-trash" />
+              <Label htmlFor="project-tasks-trash" className="font-normal">Move its tasks to the trash too</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="keep" id="project-tasks-keep" />
+              <Label htmlFor="project-tasks-keep" className="font-normal">Keep its tasks without a project</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="move" id="project-tasks-move" disabled={targets.length === 0} />
+              <Label htmlFor="project-tasks-move" className="font-normal">Move its tasks to</Label>
+              <Select
+                value={targetId}
+                onValueChange={(value) => {
+                  setTargetId(value)
+                  setAction('move')
+                }}
+                disabled={targets.length === 0}
+              >
+                <SelectTrigger className="h-8 w-[180px]">
+                  <SelectValue placeholder="Choose project..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </RadioGroup>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={action === 'move' && !targetId}
+          >
+            Delete project
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
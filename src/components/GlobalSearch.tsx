@@ -0,0 +1,172 @@
+import { useState, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Input } from './ui/input'
+import { Search, CheckSquare, FolderOpen, MessageSquare, User, ArrowRight } from 'lucide-react'
+import { Highlight } from './Highlight'
+import { cn } from '../lib/utils'
+import { routes, taskPath, projectPath, searchPath } from '../lib/routes'
+import { search, excerpt } from '../lib/search'
+import { useSearchIndex } from '../hooks/use-search-index'
+
+const MAX_PER_GROUP = 5
+
+interface SearchItem {
+  key: string
+  group: string
+  icon: typeof Search
+  label: string
+  detail?: string
+  to: string
+}
+
+export function GlobalSearch() {
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [highlightedIndex, setHighlightedIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const navigate = useNavigate()
+  const { index, reload } = useSearchIndex()
+
+  const results = search(index, query)
+  const taskTitles = new Map(index.tasks.map(task => [task.id, task.title]))
+
+  const items: SearchItem[] = [
+    ...results.tasks.slice(0, MAX_PER_GROUP).map(task => ({
+      key: `task:${task.id}`,
+      group: 'Tasks',
+      icon: CheckSquare,
+      label: task.title,
+      detail: task.description,
+      to: taskPath(task.id),
+    })),
+    ...results.projects.slice(0, MAX_PER_GROUP).map(project => ({
+      key: `project:${project.id}`,
+      group: 'Projects',
+      icon: FolderOpen,
+      label: project.name,
+      detail: project.description,
+      to: projectPath(project.id),
+    })),
+    ...results.comments.slice(0, MAX_PER_GROUP).map(comment => ({
+      key: `comment:${comment.id}`,
+      group: 'Comments',
+      icon: MessageSquare,
+      label: excerpt(comment.body, query, 40),
+      detail: `${comment.user_email.split('@')[0]} on "${taskTitles.get(comment.task_id) ?? 'a task'}"`,
+      to: taskPath(comment.task_id),
+    })),
+    ...results.members.slice(0, MAX_PER_GROUP).map(member => ({
+      key: `member:${member.id}`,
+      group: 'Teammates',
+      icon: User,
+      label: member.display_name || member.email,
+      detail: member.email,
+      to: routes.team,
+    })),
+  ]
+  // The last entry always leads to the full results page
+  const seeAll: SearchItem = {
+    key: 'see-all',
+    group: '',
+    icon: ArrowRight,
+    label: `See all results for "${query.trim()}"`,
+    to: searchPath(query.trim()),
+  }
+  const allItems = [...items, seeAll]
+
+  const close = () => {
+    setOpen(false)
+    inputRef.current?.blur()
+  }
+
+  const openItem = (item: SearchItem) => {
+    navigate(item.to)
+    setQuery('')
+    close()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!query.trim()) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlightedIndex(i => (i + 1) % allItems.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlightedIndex(i => (i - 1 + allItems.length) % allItems.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      openItem(allItems[highlightedIndex] ?? seeAll)
+    } else if (e.key === 'Escape') {
+      close()
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        placeholder="Search tasks, projects..."
+        className="pl-10 bg-background/50"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setHighlightedIndex(0)
+          setOpen(true)
+        }}
+        onFocus={() => {
+          setOpen(true)
+          reload()
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {open && query.trim() && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-full min-w-[320px] max-h-[70vh] overflow-y-auto rounded-md border border-border bg-popover p-1 shadow-md">
+          {items.length === 0 && (
+            <p className="px-2 py-3 text-sm text-muted-foreground">No matches</p>
+          )}
+          {allItems.map((item, itemIndex) => {
+            const Icon = item.icon
+            const startsGroup = item.group && item.group !== allItems[itemIndex - 1]?.group
+            return (
+              <div key={item.key}>
+                {startsGroup && (
+                  <p className="px-2 pt-2 pb-1 text-xs font-medium text-muted-foreground">{item.group}</p>
+                )}
+                {item === seeAll && items.length > 0 && <div className="my-1 h-px bg-border" />}
+                <button
+                  type="button"
+                  // Keep focus in the input so onBlur does not close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    openItem(item)
+                  }}
+                  onMouseEnter={() => setHighlightedIndex(itemIndex)}
+                  className={cn(
+                    'w-full flex items-start space-x-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                    itemIndex === highlightedIndex && 'bg-accent text-accent-foreground'
+                  )}
+                >
+                  <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate">
+                      {item === seeAll ? item.label : <Highlight text={item.label} query={query} />}
+                    </span>
+                    {item.detail && (
+                      <span className="block truncate text-xs text-muted-foreground">
+                        <Highlight text={item.detail} query={query} />
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
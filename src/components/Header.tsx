@@ -1,6 +1,5 @@
-import { Search, Bell, Moon, Sun, LogOut } from 'lucide-react'
+import { Bell, Moon, Sun, LogOut } from 'lucide-react'
 import { Button } from './ui/button'
-import { Input } from './ui/input'
 import { Avatar, AvatarFallback } from './ui/avatar'
 import { 
   DropdownMenu,
@@ -9,21 +8,20 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu'
-import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { blink } from '../blink/client'
+import { routes } from '../lib/routes'
 import { NotificationCenter } from './NotificationCenter'
+import { GlobalSearch } from './GlobalSearch'
+import { useTheme } from '../hooks/use-theme'
 
 interface HeaderProps {
   user: any
 }
 
 export function Header({ user }: HeaderProps) {
-  const [isDark, setIsDark] = useState(false)
-
-  const toggleTheme = () => {
-    setIsDark(!isDark)
-    document.documentElement.classList.toggle('dark')
-  }
+  const { isDark, toggleTheme } = useTheme()
+  const navigate = useNavigate()
 
   const handleLogout = () => {
     blink.auth.logout()
@@ -38,13 +36,7 @@ export function Header({ user }: HeaderProps) {
       <div className="h-full px-6 flex items-center justify-between">
         {/* Search */}
         <div className="flex-1 max-w-md">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search tasks, projects..."
-              className="pl-10 bg-background/50"
-            />
-          </div>
+          <GlobalSearch />
         </div>
 
         {/* Actions */}
@@ -83,10 +75,10 @@ export function Header({ user }: HeaderProps) {
                 <p className="text-xs text-muted-foreground">Free Plan</p>
               </div>
               <DropdownMenuSeparator />
-              <DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate(routes.profile)}>
                 Profile Settings
               </DropdownMenuItem>
-              <DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate(routes.settings)}>
                 Preferences
               </DropdownMenuItem>
               <DropdownMenuSeparator />
@@ -0,0 +1,23 @@
+import { highlightMatches } from '../lib/search'
+
+interface HighlightProps {
+  text: string
+  query: string
+}
+
+// Renders `text` with every search term from `query` marked
+export function Highlight({ text, query }: HighlightProps) {
+  return (
+    <>
+      {highlightMatches(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,26 @@
+import { Badge } from './ui/badge'
+import { useLabels } from '../hooks/use-labels'
+import { cn } from '../lib/utils'
+
+interface LabelChipsProps {
+  labelIds: string[]
+  className?: string
+}
+
+// Ids of deleted labels are skipped
+export function LabelChips({ labelIds, className }: LabelChipsProps) {
+  const { labels } = useLabels()
+  const shown = labels.filter(label => labelIds.includes(label.id))
+  if (shown.length === 0) return null
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {shown.map((label) => (
+        <Badge key={label.id} variant="outline" className="font-normal">
+          <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: label.color }} />
+          {label.name}
+        </Badge>
+      ))}
+    </div>
+  )
+}
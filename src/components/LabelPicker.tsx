@@ -0,0 +1,90 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from './ui/command'
+import { Check, Plus, Tag } from 'lucide-react'
+import { LabelChips } from './LabelChips'
+import { useLabels } from '../hooks/use-labels'
+import { useToast } from '../hooks/use-toast'
+import { cn } from '../lib/utils'
+
+interface LabelPickerProps {
+  value: string[]
+  onChange: (labelIds: string[]) => void
+}
+
+export function LabelPicker({ value, onChange }: LabelPickerProps) {
+  const { labels, addLabel } = useLabels()
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const { toast } = useToast()
+
+  const name = search.trim()
+  const canCreate = !!name && !labels.some(label => label.name.toLowerCase() === name.toLowerCase())
+
+  const toggle = (labelId: string) => {
+    onChange(value.includes(labelId) ? value.filter(id => id !== labelId) : [...value, labelId])
+  }
+
+  const handleCreate = async () => {
+    try {
+      const label = await addLabel({ name })
+      onChange([...value, label.id])
+      setSearch('')
+    } catch (error) {
+      console.error('Failed to create label:', error)
+      toast({
+        title: "Error",
+        description: "Failed to create label. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-auto min-h-9 w-full justify-start font-normal">
+          {value.length > 0 ? (
+            <LabelChips labelIds={value} />
+          ) : (
+            <span className="flex items-center text-muted-foreground">
+              <Tag className="w-4 h-4 mr-2" />
+              Add labels
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Find or create a label..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No labels found.</CommandEmpty>
+            <CommandGroup>
+              {labels.map((label) => (
+                <CommandItem key={label.id} value={label.name} onSelect={() => toggle(label.id)}>
+                  <Check className={cn('w-4 h-4 mr-2', !value.includes(label.id) && 'invisible')} />
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: label.color }} />
+                  {label.name}
+                </CommandItem>
+              ))}
+              {canCreate && (
+                <CommandItem value={`create ${name}`} onSelect={handleCreate} forceMount>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create "{name}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
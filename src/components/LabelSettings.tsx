@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog'
+import { Merge, Plus, Tag, Trash2 } from 'lucide-react'
+import { blink } from '../blink/client'
+import { useToast } from '../hooks/use-toast'
+import { useLabels } from '../hooks/use-labels'
+import { countTasks } from '../lib/task-display'
+import { cn } from '../lib/utils'
+import { COLOR_PALETTE } from '../lib/colors'
+import { diffTask, listTasks, logTaskActivity, updateTask, type Task, type TaskLabel } from '../data'
+
+type PendingChange = { kind: 'merge'; label: TaskLabel; targetId: string } | { kind: 'delete'; label: TaskLabel }
+
+// Only the owner of a label can change it; teammates' labels are listed for reference
+export function LabelSettings() {
+  const { labels, addLabel, editLabel, removeLabel } = useLabels()
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [userId, setUserId] = useState<string>()
+  const [newName, setNewName] = useState('')
+  // Names being typed, by label id; saved on blur
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [pending, setPending] = useState<PendingChange | null>(null)
+  const { toast } = useToast()
+
+  const loadTasks = useCallback(async () => {
+    try {
+      const user = await blink.auth.me()
+      setUserId(user.id)
+      setTasks(await listTasks(user.id))
+    } catch (error) {
+      console.error('Failed to load tasks:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTasks()
+  }, [loadTasks])
+
+  const taskCount = (labelId: string) => tasks.filter(task => task.label_ids.includes(labelId)).length
+
+  const isTaken = (name: string, exceptId?: string) =>
+    labels.some(label => label.id !== exceptId && label.name.toLowerCase() === name.toLowerCase())
+
+  const showError = (action: string, error: unknown) => {
+    console.error(`Failed to ${action} label:`, error)
+    toast({
+      title: "Error",
+      description: `Failed to ${action} label. Please try again.`,
+      variant: "destructive",
+    })
+  }
+
+  const handleCreate = async () => {
+    const name = newName.trim()
+    if (!name) return
+    if (isTaken(name)) {
+      toast({
+        title: "Error",
+        description: `A label named "${name}" already exists.`,
+        variant: "destructive",
+      })
+      return
+    }
+    try {
+      await addLabel({ name })
+      setNewName('')
+    } catch (error) {
+      showError('create', error)
+    }
+  }
+
+  const handleRename = async (label: TaskLabel) => {
+    const name = names[label.id]?.trim()
+    setNames(({ [label.id]: _, ...rest }) => rest)
+    if (!name || name === label.name) return
+    if (isTaken(name, label.id)) {
+      toast({
+        title: "Error",
+        description: `A label named "${name}" already exists.`,
+        variant: "destructive",
+      })
+      return
+    }
+    try {
+      await editLabel(label.id, { name })
+    } catch (error) {
+      showError('rename', error)
+    }
+  }
+
+  const handleColor = async (label: TaskLabel, color: string) => {
+    try {
+      await editLabel(label.id, { color })
+    } catch (error) {
+      showError('update', error)
+    }
+  }
+
+  // Swaps (or drops, without `targetId`) the label on every task that has it, then deletes it
+  const replaceLabel = async (label: TaskLabel, targetId?: string) => {
+    const user = await blink.auth.me()
+    const affected = tasks.filter(task => task.label_ids.includes(label.id))
+    const updated = new Map<string, string[]>()
+    for (const task of affected) {
+      const labelIds = [...new Set(task.label_ids.map(id => id === label.id ? targetId : id))]
+        .filter((id): id is string => !!id)
+      await updateTask(task.id, { label_ids: labelIds })
+      await logTaskActivity(user, task, 'updated', diffTask(task, { label_ids: labelIds }))
+      updated.set(task.id, labelIds)
+    }
+    await removeLabel(label.id)
+    setTasks(prev => prev.map(task => updated.has(task.id) ? { ...task, label_ids: updated.get(task.id)! } : task))
+  }
+
+  const handleConfirm = async (change: PendingChange) => {
+    setPending(null)
+    const target = change.kind === 'merge' ? labels.find(label => label.id === change.targetId) : undefined
+    try {
+      await replaceLabel(change.label, target?.id)
+      toast({
+        title: "Success",
+        description: target
+          ? `"${change.label.name}" was merged into "${target.name}".`
+          : `"${change.label.name}" was deleted.`,
+      })
+    } catch (error) {
+      showError(change.kind, error)
+      loadTasks()
+    }
+  }
+
+  const pendingCount = pending ? taskCount(pending.label.id) : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Tag className="w-5 h-5" />
+          <span>Labels</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex space-x-2">
+          <Input
+            placeholder="New label name..."
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <Button onClick={handleCreate} disabled={!newName.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No labels yet. Labels you add show up in the task editor.</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {labels.map((label) => {
+              const own = label.user_id === userId
+              return (
+                <div key={label.id} className="flex items-center space-x-3 py-2">
+                  <Popover>
+                    <PopoverTrigger asChild disabled={!own}>
+                      <button
+                        type="button"
+                        className="w-4 h-4 rounded-full shrink-0"
+                        style={{ backgroundColor: label.color }}
+                        aria-label={`Color of ${label.name}`}
+                      />
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto grid grid-cols-5 gap-2" align="start">
+                      {COLOR_PALETTE.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => handleColor(label, color)}
+                          className={cn('w-6 h-6 rounded-full', label.color === color && 'ring-2 ring-ring ring-offset-2')}
+                          style={{ backgroundColor: color }}
+                          aria-label={color}
+                        />
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                  {own ? (
+                    <Input
+                      value={names[label.id] ?? label.name}
+                      onChange={(e) => setNames(prev => ({ ...prev, [label.id]: e.target.value }))}
+                      onBlur={() => handleRename(label)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="h-8 flex-1"
+                      aria-label="Label name"
+                    />
+                  ) : (
+                    <span className="flex-1 text-sm">
+                      {label.name}
+                      <span className="text-muted-foreground"> · from {label.user_email?.split('@')[0] ?? 'a teammate'}</span>
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {countTasks(taskCount(label.id))}
+                  </span>
+                  {own && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setPending({ kind: 'merge', label, targetId: '' })}
+                        disabled={labels.length < 2}
+                        aria-label={`Merge ${label.name}`}
+                      >
+                        <Merge className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => setPending({ kind: 'delete', label })}
+                        aria-label={`Delete ${label.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.kind === 'merge' ? `Merge "${pending.label.name}"` : `Delete "${pending?.label.name}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.kind === 'merge'
+                ? `${countTasks(pendingCount)} get the label you pick instead, and "${pending.label.name}" is deleted.`
+                : `The label is removed from ${countTasks(pendingCount)}. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pending?.kind === 'merge' && (
+            <Select value={pending.targetId} onValueChange={(targetId) => setPending({ ...pending, targetId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into..." />
+              </SelectTrigger>
+              <SelectContent>
+                {labels.filter(label => label.id !== pending.label.id).map((label) => (
+                  <SelectItem key={label.id} value={label.id}>
+                    <div className="flex items-center space-x-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: label.color }} />
+                      <span>{label.name}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pending && handleConfirm(pending)}
+              disabled={pending?.kind === 'merge' && !pending.targetId}
+            >
+              {pending?.kind === 'merge' ? 'Merge' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
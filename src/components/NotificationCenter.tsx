@@ -5,20 +5,10 @@ import { Badge } from './ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
 import { ScrollArea } from './ui/scroll-area'
-import { Bell, Check, CheckCheck, Users, ClipboardList } from 'lucide-react'
+import { Bell, Check, CheckCheck, Users, ClipboardList, AtSign, LockOpen } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { useToast } from '../hooks/use-toast'
-
-interface Notification {
-  id: string
-  user_id: string
-  type: string
-  title: string
-  message: string
-  data?: string
-  read: number
-  created_at: string
-}
+import { listNotifications, markNotificationRead, type Notification } from '../data'
 
 export function NotificationCenter() {
   const [notifications, setNotifications] = useState<Notification[]>([])
@@ -30,11 +20,7 @@ export function NotificationCenter() {
     try {
       const user = await blink.auth.me()
       
-      const userNotifications = await blink.db.notifications.list({
-        where: { user_id: user.id },
-        orderBy: { created_at: 'desc' },
-        limit: 50
-      })
+      const userNotifications = await listNotifications(user.id, { limit: 50 })
 
       setNotifications(userNotifications)
       setUnreadCount(userNotifications.filter(n => Number(n.read) === 0).length)
@@ -56,9 +42,7 @@ export function NotificationCenter() {
 
   const markAsRead = async (notificationId: string) => {
     try {
-      await blink.db.notifications.update(notificationId, {
-        read: 1
-      })
+      await markNotificationRead(notificationId)
 
       setNotifications(prev => 
         prev.map(n => n.id === notificationId ? { ...n, read: 1 } : n)
@@ -76,9 +60,7 @@ export function NotificationCenter() {
       const unreadNotifications = notifications.filter(n => Number(n.read) === 0)
       
       for (const notification of unreadNotifications) {
-        await blink.db.notifications.update(notification.id, {
-          read: 1
-        })
+        await markNotificationRead(notification.id)
       }
 
       setNotifications(prev => 
@@ -101,6 +83,10 @@ export function NotificationCenter() {
         return <ClipboardList className="h-4 w-4 text-blue-500" />
       case 'task_completed':
         return <Check className="h-4 w-4 text-green-500" />
+      case 'task_unblocked':
+        return <LockOpen className="h-4 w-4 text-orange-500" />
+      case 'task_mentioned':
+        return <AtSign className="h-4 w-4 text-orange-500" />
       case 'connection_accepted':
         return <Users className="h-4 w-4 text-purple-500" />
       default:
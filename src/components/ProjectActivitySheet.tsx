@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from './ui/sheet'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { History } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { ActivityTimeline } from './ActivityTimeline'
+import { listProjectActivity, type Project, type Task, type TaskActivity } from '../data'
+
+// The timeline is filtered on the client, so only this many recent entries are fetched
+const ACTIVITY_LIMIT = 500
+
+interface ProjectActivitySheetProps {
+  project: Project
+  projects?: Project[]
+  // To name blocking tasks in the history
+  tasks?: Task[]
+}
+
+export function ProjectActivitySheet({ project, projects, tasks }: ProjectActivitySheetProps) {
+  const [open, setOpen] = useState(false)
+  const [entries, setEntries] = useState<TaskActivity[]>([])
+  const [loading, setLoading] = useState(false)
+  const [actorId, setActorId] = useState('all')
+  // yyyy-MM-dd, both inclusive
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const loadActivity = useCallback(async () => {
+    setLoading(true)
+    try {
+      setEntries(await listProjectActivity(project.id, { limit: ACTIVITY_LIMIT }))
+    } catch (error) {
+      console.error('Failed to load project activity:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    if (open) loadActivity()
+  }, [open, loadActivity])
+
+  const actors = [...new Map(entries.map(entry => [entry.actor_id, entry.actor_email ?? entry.actor_id])).entries()]
+    .sort((a, b) => a[1].localeCompare(b[1]))
+
+  const filtered = entries.filter(entry => {
+    const day = format(parseISO(entry.created_at), 'yyyy-MM-dd')
+    if (actorId !== 'all' && entry.actor_id !== actorId) return false
+    if (from && day < from) return false
+    if (to && day > to) return false
+    return true
+  })
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="w-4 h-4 mr-2" />
+          Activity
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Activity</SheetTitle>
+          <SheetDescription>Changes to tasks in {project.name}</SheetDescription>
+        </SheetHeader>
+
+        <div className="grid grid-cols-2 gap-3 py-4">
+          <div className="col-span-2 space-y-1">
+            <Label>Person</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                {actors.map(([id, email]) => (
+                  <SelectItem key={id} value={id}>{email}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-from">From</Label>
+            <Input id="activity-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-to">To</Label>
+            <Input id="activity-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading activity...</p>
+        ) : (
+          <ActivityTimeline entries={filtered} projects={projects} tasks={tasks} showTask />
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,267 @@
+import { useEffect, useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Smile } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { COLOR_PALETTE } from '../lib/colors'
+import type { Project, ProjectInput } from '../data'
+
+const PROJECT_ICONS = [
+  '📁', '🚀', '🎯', '💡', '📈', '🛠️', '🎨', '📚',
+  '🏠', '💼', '🧪', '🌱', '⚡', '🔒', '📣', '🗓️',
+]
+
+// Names are compared case-insensitively, so "Website" and "website" clash
+const projectFormSchema = (takenNames: string[]) => z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(60, 'Name must be 60 characters or less')
+    .refine(name => !takenNames.includes(name.toLowerCase()), 'You already have a project with this name'),
+  description: z.string().trim().max(500, 'Description must be 500 characters or less'),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Enter a hex color such as #2563eb'),
+  icon: z.string(),
+  start_date: z.string(),
+  target_date: z.string(),
+}).refine(
+  values => !values.start_date || !values.target_date || values.target_date >= values.start_date,
+  { message: 'Target date must be on or after the start date', path: ['target_date'] }
+)
+
+type ProjectFormValues = z.infer<ReturnType<typeof projectFormSchema>>
+
+const toFormValues = (project?: Project | null): ProjectFormValues => ({
+  name: project?.name ?? '',
+  description: project?.description ?? '',
+  color: project?.color ?? COLOR_PALETTE[0],
+  icon: project?.icon ?? '',
+  start_date: project?.start_date ?? '',
+  target_date: project?.target_date ?? '',
+})
+
+interface ProjectDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project?: Project | null
+  // Names of the user's other projects, used for the uniqueness check
+  takenNames: string[]
+  // Rejects when the save failed, which keeps the dialog open with the user's input
+  onSave: (data: ProjectInput & { name: string; color: string }) => Promise<void>
+}
+
+export function ProjectDialog({ open, onOpenChange, project, takenNames, onSave }: ProjectDialogProps) {
+  const schema = useMemo(
+    () => projectFormSchema(takenNames.map(name => name.trim().toLowerCase())),
+    [takenNames]
+  )
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: toFormValues(project),
+  })
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(project))
+  }, [open, project, form])
+
+  const onSubmit = async (values: ProjectFormValues) => {
+    try {
+      await onSave({
+        name: values.name,
+        description: values.description || undefined,
+        color: values.color,
+        icon: values.icon || undefined,
+        start_date: values.start_date || undefined,
+        target_date: values.target_date || undefined,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save project:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{project ? 'Edit Project' : 'Create New Project'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <div className="flex items-start space-x-3">
+              <FormField
+                control={form.control}
+                name="icon"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Icon</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button type="button" variant="outline" className="h-10 w-10 p-0 text-lg">
+                            {field.value || <Smile className="w-4 h-4 text-muted-foreground" />}
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent align="start" className="w-64 p-2">
+                        <div className="grid grid-cols-8 gap-1">
+                          {PROJECT_ICONS.map((icon) => (
+                            <button
+                              key={icon}
+                              type="button"
+                              onClick={() => field.onChange(icon)}
+                              className={cn(
+                                'h-7 w-7 rounded text-lg leading-none hover:bg-muted',
+                                field.value === icon && 'bg-accent'
+                              )}
+                            >
+                              {icon}
+                            </button>
+                          ))}
+                        </div>
+                        {field.value && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="w-full mt-2"
+                            onClick={() => field.onChange('')}
+                          >
+                            Remove icon
+                          </Button>
+                        )}
+                      </PopoverContent>
+                    </Popover>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter project name..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What is this project about?" rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {COLOR_PALETTE.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => field.onChange(color)}
+                        className={cn(
+                          'h-7 w-7 rounded-full ring-offset-2 ring-offset-background transition-shadow',
+                          field.value.toLowerCase() === color && 'ring-2 ring-ring'
+                        )}
+                        style={{ backgroundColor: color }}
+                        aria-label={color}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="color"
+                      value={/^#[0-9a-f]{6}$/i.test(field.value) ? field.value : COLOR_PALETTE[0]}
+                      onChange={(e) => field.onChange(e.target.value)}
+                      className="h-9 w-12 cursor-pointer rounded border border-input bg-background p-1"
+                      aria-label="Custom color"
+                    />
+                    <FormControl>
+                      <Input className="w-32 font-mono" {...field} />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="target_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : project ? 'Update Project' : 'Create Project'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
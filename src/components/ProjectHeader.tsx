@@ -0,0 +1,82 @@
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Progress } from './ui/progress'
+import { AlertCircle, Calendar } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { ProjectIcon } from './ProjectIcon'
+import { ProjectActivitySheet } from './ProjectActivitySheet'
+import { ProjectWorkflowDialog } from './ProjectWorkflowDialog'
+import { cn } from '../lib/utils'
+import { summarizeTasks, type Project, type Task, type WorkflowStatus } from '../data'
+
+interface ProjectHeaderProps {
+  project: Project
+  tasks: Task[]
+  // All of the user's projects, to name the ones tasks were moved between
+  projects?: Project[]
+  overdueOnly: boolean
+  onOverdueOnlyChange: (overdueOnly: boolean) => void
+  onWorkflowChange: (statuses: WorkflowStatus[]) => Promise<void>
+}
+
+export function ProjectHeader({
+  project,
+  tasks,
+  projects,
+  overdueOnly,
+  onOverdueOnlyChange,
+  onWorkflowChange,
+}: ProjectHeaderProps) {
+  const summary = summarizeTasks(tasks)
+
+  return (
+    <Card className="border-l-4" style={{ borderLeftColor: project.color }}>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+              <ProjectIcon project={project} />
+              {project.name}
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              {project.description || 'No description'}
+            </p>
+            {(project.start_date || project.target_date) && (
+              <p className="flex items-center text-sm text-muted-foreground mt-2">
+                <Calendar className="w-4 h-4 mr-1" />
+                {project.start_date && format(parseISO(project.start_date), 'MMM d, yyyy')}
+                {project.start_date && project.target_date && ' – '}
+                {project.target_date && `${project.start_date ? '' : 'Due '}${format(parseISO(project.target_date), 'MMM d, yyyy')}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <ProjectActivitySheet project={project} projects={projects} tasks={tasks} />
+            <ProjectWorkflowDialog project={project} onSave={onWorkflowChange} />
+            <Button
+              variant={overdueOnly ? 'destructive' : 'outline'}
+              size="sm"
+              disabled={summary.overdue === 0 && !overdueOnly}
+              onClick={() => onOverdueOnlyChange(!overdueOnly)}
+            >
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {summary.overdue} overdue
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {summary.todo} to do · {summary.inProgress} in progress · {summary.done} done
+            </span>
+            <span className={cn('font-medium', summary.percent === 100 && 'text-green-600')}>
+              {summary.percent}% complete
+            </span>
+          </div>
+          <Progress value={summary.percent} className="h-2" />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
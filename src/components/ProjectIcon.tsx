@@ -0,0 +1,20 @@
+import { cn } from '../lib/utils'
+import type { Project } from '../data'
+
+interface ProjectIconProps {
+  project: Pick<Project, 'color' | 'icon'>
+  className?: string
+}
+
+// The project's emoji when it has one, otherwise a dot in the project color
+export function ProjectIcon({ project, className }: ProjectIconProps) {
+  if (project.icon) {
+    return <span className={cn('leading-none', className)}>{project.icon}</span>
+  }
+  return (
+    <span
+      className={cn('inline-block w-4 h-4 rounded-full shrink-0', className)}
+      style={{ backgroundColor: project.color }}
+    />
+  )
+}
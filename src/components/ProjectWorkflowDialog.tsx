@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { ArrowDown, ArrowUp, Plus, Trash2, Workflow } from 'lucide-react'
+import {
+  projectWorkflow,
+  newStatusId,
+  STATUS_CATEGORIES,
+  type Project,
+  type StatusCategory,
+  type WorkflowStatus,
+} from '../data'
+
+// A row being edited; new rows get an id from their name when saved
+interface DraftStatus {
+  key: string
+  id?: string
+  name: string
+  category: StatusCategory
+}
+
+interface ProjectWorkflowDialogProps {
+  project: Project
+  onSave: (statuses: WorkflowStatus[]) => Promise<void>
+}
+
+let draftKey = 0
+
+const toDraft = (status: WorkflowStatus): DraftStatus => ({ key: status.id, ...status })
+
+// Returns why the statuses cannot be saved, if they cannot
+function validate(rows: DraftStatus[]): string | undefined {
+  const names = rows.map(row => row.name.trim().toLowerCase())
+  if (names.some(name => !name)) return 'Every status needs a name.'
+  if (new Set(names).size !== names.length) return 'Status names must be different.'
+  if (!rows.some(row => row.category === 'not_started')) return 'Add at least one "Not started" status for new tasks.'
+  if (!rows.some(row => row.category === 'done')) return 'Add at least one "Done" status to complete tasks.'
+}
+
+export function ProjectWorkflowDialog({ project, onSave }: ProjectWorkflowDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [rows, setRows] = useState<DraftStatus[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) setRows(projectWorkflow(project).map(toDraft))
+  }, [open, project])
+
+  const updateRow = (key: string, changes: Partial<DraftStatus>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row))
+  }
+
+  const moveRow = (index: number, offset: number) => {
+    setRows(prev => {
+      const next = [...prev]
+      const [row] = next.splice(index, 1)
+      next.splice(index + offset, 0, row)
+      return next
+    })
+  }
+
+  const addRow = () => {
+    setRows(prev => [...prev, { key: `new-${++draftKey}`, name: '', category: 'active' }])
+  }
+
+  const error = validate(rows)
+
+  const handleSave = async () => {
+    if (error) return
+
+    const taken = rows.flatMap(row => row.id ? [{ id: row.id }] : [])
+    const statuses = rows.map(row => {
+      const status = { id: row.id ?? newStatusId(row.name, taken), name: row.name.trim(), category: row.category }
+      taken.push(status)
+      return status
+    })
+
+    setLoading(true)
+    try {
+      await onSave(statuses)
+      setOpen(false)
+    } catch (error) {
+      console.error('Failed to save workflow:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Workflow className="w-4 h-4 mr-2" />
+          Workflow
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Workflow</DialogTitle>
+          <DialogDescription>
+            The statuses of {project.name}'s tasks, in board order. The category decides what counts
+            as overdue, in progress or complete. Tasks in a removed status move to the first status
+            of the same category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          {rows.map((row, index) => (
+            <div key={row.key} className="flex items-center space-x-2">
+              <Input
+                value={row.name}
+                placeholder="Status name"
+                onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                className="h-9 flex-1"
+                aria-label="Status name"
+              />
+              <Select
+                value={row.category}
+                onValueChange={(category) => updateRow(row.key, { category: category as StatusCategory })}
+              >
+                <SelectTrigger className="h-9 w-36" aria-label="Category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_CATEGORIES.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => moveRow(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${row.name} up`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => moveRow(index, 1)}
+                disabled={index === rows.length - 1}
+                aria-label={`Move ${row.name} down`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}
+                disabled={rows.length === 1}
+                aria-label={`Remove ${row.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="ghost" size="sm" onClick={addRow}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add status
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!!error || loading}>
+            {loading ? 'Saving...' : 'Save Workflow'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
 import { Plus, FolderOpen, MoreHorizontal } from 'lucide-react'
 import {
   DropdownMenu,
@@ -9,33 +11,65 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu'
+import { ToastAction } from './ui/toast'
 import { blink } from '../blink/client'
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import { useToast } from '../hooks/use-toast'
+import { projectPath } from '../lib/routes'
+import { ProjectDialog } from './ProjectDialog'
+import { ProjectIcon } from './ProjectIcon'
+import { DeleteProjectDialog, type ProjectTasksChoice } from './DeleteProjectDialog'
+import {
+  listProjects,
+  createProject,
+  updateProject,
+  trashProject,
+  restoreProject,
+  listTasks,
+  updateTask,
+  trashTask,
+  restoreTask,
+  summarizeTasks,
+  diffTask,
+  logTaskActivity,
+  placeStatus,
+  projectWorkflow,
+  statusFields,
+  type Project,
+  type ProjectInput,
+  type Task,
+  type TaskInput,
+} from '../data'
 
-interface Project {
-  id: string
-  name: string
-  description?: string
-  color: string
-  user_id: string
-  created_at: string
-  updated_at: string
-}
+// Where the tasks of a deleted project end up, unless they went to the trash
+const newProjectId = (choice: ProjectTasksChoice) => (choice.action === 'move' ? choice.projectId : undefined)
 
 export function ProjectsPage() {
   const [projects, setProjects] = useState<Project[]>([])
+  const [tasks, setTasks] = useState<Task[]>([])
   const [loading, setLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingProject, setEditingProject] = useState<Project | null>(null)
+  const [deletingProject, setDeletingProject] = useState<Project | null>(null)
+  const navigate = useNavigate()
   const { toast } = useToast()
 
+  // Moved tasks take the matching status of the workflow they land in
+  const movedFields = (task: Task, choice: ProjectTasksChoice): TaskInput => {
+    const projectId = newProjectId(choice)
+    const status = placeStatus(projectWorkflow(projects.find(p => p.id === projectId)), task)
+    return { project_id: projectId, ...statusFields(status) }
+  }
+
   const loadProjects = useCallback(async () => {
     try {
       const user = await blink.auth.me()
-      const allProjects = await blink.db.projects.list({
-        where: { user_id: user.id },
-        orderBy: { created_at: 'desc' }
-      })
-      setProjects(allProjects)
+      const [projectList, taskList] = await Promise.all([
+        listProjects(user.id),
+        listTasks(user.id),
+      ])
+      setProjects(projectList)
+      setTasks(taskList)
     } catch (error) {
       console.error('Failed to load projects:', error)
       toast({
@@ -52,18 +86,10 @@ export function ProjectsPage() {
     loadProjects()
   }, [loadProjects])
 
-  const handleCreateProject = async () => {
+  const handleCreateProject = async (projectData: ProjectInput & { name: string; color: string }) => {
     try {
       const user = await blink.auth.me()
-      const newProject = await blink.db.projects.create({
-        id: `proj_${Date.now()}`,
-        name: 'New Project',
-        description: 'Project description',
-        color: '#2563eb',
-        user_id: user.id,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      })
+      const newProject = await createProject(user.id, projectData)
       
       setProjects(prev => [newProject, ...prev])
       toast({
@@ -77,16 +103,100 @@ export function ProjectsPage() {
         description: "Failed to create project. Please try again.",
         variant: "destructive",
       })
+      throw error
+    }
+  }
+
+  const handleUpdateProject = async (projectId: string, updates: ProjectInput) => {
+    try {
+      await updateProject(projectId, updates)
+      setProjects(prev => prev.map(project =>
+        project.id === projectId ? { ...project, ...updates } : project
+      ))
+      toast({
+        title: "Success",
+        description: "Project updated successfully!",
+      })
+    } catch (error) {
+      console.error('Failed to update project:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update project. Please try again.",
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingProject(null)
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (project: Project) => {
+    setEditingProject(project)
+    setIsDialogOpen(true)
+  }
+
+  // Puts the project and its tasks back the way they were before `handleDeleteProject`
+  const undoDeleteProject = async (project: Project, projectTasks: Task[], choice: ProjectTasksChoice) => {
+    try {
+      const user = await blink.auth.me()
+      await restoreProject(project.id)
+      for (const task of projectTasks) {
+        if (choice.action === 'trash') {
+          await restoreTask(task.id)
+          await logTaskActivity(user, task, 'restored')
+        } else {
+          const restored = { project_id: project.id, status: task.status, status_category: task.status_category }
+          await updateTask(task.id, restored)
+          await logTaskActivity(user, task, 'updated', diffTask({ ...task, ...movedFields(task, choice) }, restored))
+        }
+      }
+      await loadProjects()
+    } catch (error) {
+      console.error('Failed to restore project:', error)
+      toast({
+        title: "Error",
+        description: "Failed to restore project. Please try again.",
+        variant: "destructive",
+      })
     }
   }
 
-  const handleDeleteProject = async (projectId: string) => {
+  const handleDeleteProject = async (project: Project, choice: ProjectTasksChoice) => {
+    setDeletingProject(null)
+    const projectTasks = tasks.filter(task => task.project_id === project.id)
+    const deletedAt = new Date().toISOString()
     try {
-      await blink.db.projects.delete(projectId)
-      setProjects(prev => prev.filter(project => project.id !== projectId))
+      const user = await blink.auth.me()
+      for (const task of projectTasks) {
+        if (choice.action === 'trash') {
+          await trashTask(task.id, deletedAt)
+          await logTaskActivity(user, task, 'deleted')
+        } else {
+          const updates = movedFields(task, choice)
+          await updateTask(task.id, updates)
+          await logTaskActivity(user, { ...task, ...updates }, 'updated', diffTask(task, updates))
+        }
+      }
+      await trashProject(project.id, deletedAt)
+
+      const movedIds = new Set(projectTasks.map(task => task.id))
+      setProjects(prev => prev.filter(p => p.id !== project.id))
+      setTasks(prev => choice.action === 'trash'
+        ? prev.filter(task => !movedIds.has(task.id))
+        : prev.map(task => movedIds.has(task.id)
+          ? { ...task, ...movedFields(task, choice) }
+          : task))
       toast({
         title: "Success",
-        description: "Project deleted successfully!",
+        description: `"${project.name}" was moved to the trash.`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => undoDeleteProject(project, projectTasks, choice)}>
+            Undo
+          </ToastAction>
+        ),
       })
     } catch (error) {
       console.error('Failed to delete project:', error)
@@ -127,7 +237,7 @@ export function ProjectsPage() {
           <h1 className="text-3xl font-bold text-foreground">Projects</h1>
           <p className="text-muted-foreground mt-1">Organize your tasks into projects</p>
         </div>
-        <Button onClick={handleCreateProject}>
+        <Button onClick={openCreateDialog}>
           <Plus className="w-4 h-4 mr-2" />
           New Project
         </Button>
@@ -140,7 +250,7 @@ export function ProjectsPage() {
             <FolderOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-medium text-foreground mb-2">No projects yet</h3>
             <p className="text-muted-foreground mb-4">Create your first project to organize your tasks!</p>
-            <Button onClick={handleCreateProject}>
+            <Button onClick={openCreateDialog}>
               <Plus className="w-4 h-4 mr-2" />
               Create Project
             </Button>
@@ -148,49 +258,96 @@ export function ProjectsPage() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {projects.map((project) => (
-            <Card key={project.id} className="hover:shadow-md transition-shadow">
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center space-x-3">
-                    <div 
-                      className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: project.color }}
-                    />
-                    <CardTitle className="text-lg">{project.name}</CardTitle>
+          {projects.map((project) => {
+            const summary = summarizeTasks(tasks.filter(task => task.project_id === project.id))
+            return (
+              <Card key={project.id} className="hover:shadow-md transition-shadow">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center space-x-3">
+                      <ProjectIcon project={project} />
+                      <CardTitle className="text-lg">
+                        <Link to={projectPath(project.id)} className="hover:underline">
+                          {project.name}
+                        </Link>
+                      </CardTitle>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openEditDialog(project)}>
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => navigate(projectPath(project.id))}>
+                          View Tasks
+                        </DropdownMenuItem>
+                        <DropdownMenuItem 
+                          onClick={() => setDeletingProject(project)}
+                          className="text-destructive"
+                        >
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                        <MoreHorizontal className="w-4 h-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem>Edit</DropdownMenuItem>
-                      <DropdownMenuItem>View Tasks</DropdownMenuItem>
-                      <DropdownMenuItem 
-                        onClick={() => handleDeleteProject(project.id)}
-                        className="text-destructive"
-                      >
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground text-sm mb-4">
-                  {project.description || 'No description'}
-                </p>
-                <div className="flex items-center justify-between text-xs text-muted-foreground">
-                  <span>Created {format(new Date(project.created_at), 'MMM d, yyyy')}</span>
-                  <Badge variant="secondary">0 tasks</Badge>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground text-sm mb-4">
+                    {project.description || 'No description'}
+                  </p>
+                  <div className="space-y-1 mb-4">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{summary.done} of {summary.total} done</span>
+                      <span>{summary.percent}%</span>
+                    </div>
+                    <Progress value={summary.percent} className="h-1.5" />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {project.target_date
+                        ? `Due ${format(parseISO(project.target_date), 'MMM d, yyyy')}`
+                        : `Created ${format(new Date(project.created_at), 'MMM d, yyyy')}`}
+                    </span>
+                    <div className="flex items-center space-x-1">
+                      {summary.overdue > 0 && (
+                        <Badge variant="destructive">{summary.overdue} overdue</Badge>
+                      )}
+                      <Badge variant="secondary">
+                        {summary.total - summary.done} open
+                      </Badge>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
         </div>
       )}
+
+      <ProjectDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        project={editingProject}
+        takenNames={projects
+          .filter(project => project.id !== editingProject?.id)
+          .map(project => project.name)}
+        onSave={editingProject ?
+          (data) => handleUpdateProject(editingProject.id, data) :
+          handleCreateProject
+        }
+      />
+
+      <DeleteProjectDialog
+        project={deletingProject}
+        taskCount={deletingProject ? tasks.filter(task => task.project_id === deletingProject.id).length : 0}
+        projects={projects}
+        onOpenChange={(open) => !open && setDeletingProject(null)}
+        onConfirm={handleDeleteProject}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { Input } from './ui/input'
+import { Button } from './ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { addMonths, format } from 'date-fns'
+import {
+  WEEKDAYS,
+  describeRRule,
+  weekdayPosition,
+  type RecurrenceRule,
+} from '../lib/recurrence'
+
+type Preset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly_day' | 'monthly_weekday' | 'custom'
+
+const DAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+const ORDINAL_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' }
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function getPreset(rule: RecurrenceRule | null): Preset {
+  if (!rule) return 'none'
+  if (rule.interval !== 1) return 'custom'
+  switch (rule.freq) {
+    case 'DAILY': return 'daily'
+    case 'WEEKLY': return rule.byDay?.join() === WEEKDAYS.join() ? 'weekdays' : 'weekly'
+    case 'MONTHLY': return rule.byWeekdayOfMonth ? 'monthly_weekday' : 'monthly_day'
+  }
+}
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null
+  onChange: (rule: RecurrenceRule | null) => void
+  // Defaults such as "weekly on <day>" are taken from the task's due date
+  anchor: Date
+}
+
+export function RecurrenceEditor({ value, onChange, anchor }: RecurrenceEditorProps) {
+  // The preset picked stays picked while its rule is edited, e.g. a custom rule set
+  // back to every 1 week, or a weekly one ticked Mon–Fri
+  const [chosenPreset, setChosenPreset] = useState(() => getPreset(value))
+  const preset = !value ? 'none' : chosenPreset === 'none' ? getPreset(value) : chosenPreset
+  const ends = value?.until ? 'until' : value?.count ? 'count' : 'never'
+
+  const monthlyByDay = { freq: 'MONTHLY', interval: 1, byMonthDay: anchor.getDate() } as const
+  const monthlyByWeekday = {
+    freq: 'MONTHLY',
+    interval: 1,
+    byWeekdayOfMonth: { nth: weekdayPosition(anchor), weekday: anchor.getDay() },
+  } as const
+
+  const handlePresetChange = (next: Preset) => {
+    // Keep the end condition when switching between schedules
+    const end = { until: value?.until, count: value?.count }
+    setChosenPreset(next)
+    switch (next) {
+      case 'none': return onChange(null)
+      case 'daily': return onChange({ freq: 'DAILY', interval: 1, ...end })
+      case 'weekdays': return onChange({ freq: 'WEEKLY', interval: 1, byDay: WEEKDAYS, ...end })
+      case 'weekly': return onChange({ freq: 'WEEKLY', interval: 1, byDay: [anchor.getDay()], ...end })
+      case 'monthly_day': return onChange({ ...monthlyByDay, ...end })
+      case 'monthly_weekday': return onChange({ ...monthlyByWeekday, ...end })
+      case 'custom': return onChange({ ...(value ?? { freq: 'DAILY' }), interval: 2, ...end })
+    }
+  }
+
+  const handleFreqChange = (freq: RecurrenceRule['freq']) => {
+    if (!value) return
+    const base = { interval: value.interval, until: value.until, count: value.count }
+    if (freq === 'WEEKLY') onChange({ ...base, freq, byDay: [anchor.getDay()] })
+    else if (freq === 'MONTHLY') onChange({ ...base, freq, byMonthDay: anchor.getDate() })
+    else onChange({ ...base, freq })
+  }
+
+  const toggleDay = (day: number) => {
+    if (!value) return
+    const days = value.byDay ?? []
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort()
+    // A weekly rule needs at least one day
+    if (next.length > 0) onChange({ ...value, byDay: next })
+  }
+
+  const handleEndsChange = (next: string) => {
+    if (!value) return
+    const { until: _until, count: _count, ...rule } = value
+    if (next === 'until') onChange({ ...rule, until: format(addMonths(anchor, 3), 'yyyy-MM-dd') })
+    else if (next === 'count') onChange({ ...rule, count: 10 })
+    else onChange(rule)
+  }
+
+  return (
+    <div className="space-y-3">
+      <Select value={preset} onValueChange={(next: Preset) => handlePresetChange(next)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekdays">Every weekday (Mon–Fri)</SelectItem>
+          <SelectItem value="weekly">Weekly on chosen days</SelectItem>
+          <SelectItem value="monthly_day">Monthly on day {anchor.getDate()}</SelectItem>
+          <SelectItem value="monthly_weekday">
+            Monthly on the {ORDINAL_LABELS[weekdayPosition(anchor)]} {DAY_NAMES[anchor.getDay()]}
+          </SelectItem>
+          <SelectItem value="custom">Custom...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && preset === 'custom' && (
+        <div className="flex items-center space-x-2 text-sm">
+          <span>Every</span>
+          <Input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+            className="h-8 w-16"
+          />
+          <Select value={value.freq} onValueChange={(freq: RecurrenceRule['freq']) => handleFreqChange(freq)}>
+            <SelectTrigger className="h-8 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="DAILY">days</SelectItem>
+              <SelectItem value="WEEKLY">weeks</SelectItem>
+              <SelectItem value="MONTHLY">months</SelectItem>
+            </SelectContent>
+          </Select>
+          {value.freq === 'MONTHLY' && (
+            <Select
+              value={value.byWeekdayOfMonth ? 'weekday' : 'day'}
+              onValueChange={(mode) => onChange({
+                ...(mode === 'weekday' ? monthlyByWeekday : monthlyByDay),
+                interval: value.interval,
+                until: value.until,
+                count: value.count,
+              })}
+            >
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">on day {anchor.getDate()}</SelectItem>
+                <SelectItem value="weekday">
+                  on the {ORDINAL_LABELS[weekdayPosition(anchor)]} {DAY_NAMES[anchor.getDay()]}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {value && value.freq === 'WEEKLY' && preset !== 'weekdays' && (
+        <div className="flex items-center space-x-1">
+          {DAY_LETTERS.map((letter, day) => (
+            <Button
+              key={day}
+              type="button"
+              variant={value.byDay?.includes(day) ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => toggleDay(day)}
+              aria-label={DAY_NAMES[day]}
+            >
+              {letter}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center space-x-2 text-sm">
+          <span>Ends</span>
+          <Select value={ends} onValueChange={handleEndsChange}>
+            <SelectTrigger className="h-8 w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+              <SelectItem value="count">After</SelectItem>
+            </SelectContent>
+          </Select>
+          {ends === 'until' && (
+            <Input
+              type="date"
+              value={value.until}
+              onChange={(e) => e.target.value && onChange({ ...value, until: e.target.value })}
+              className="h-8 w-[160px]"
+            />
+          )}
+          {ends === 'count' && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => onChange({ ...value, count: Math.max(1, Number(e.target.value) || 1) })}
+                className="h-8 w-16"
+              />
+              <span>occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-muted-foreground">{describeRRule(value)}</p>
+      )}
+    </div>
+  )
+}
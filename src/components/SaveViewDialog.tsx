@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+
+interface SaveViewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultName?: string
+  defaultShared?: boolean
+  onSave: (name: string, shared: boolean) => Promise<void>
+}
+
+export function SaveViewDialog({ open, onOpenChange, defaultName = '', defaultShared = false, onSave }: SaveViewDialogProps) {
+  const [name, setName] = useState('')
+  const [shared, setShared] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName)
+      setShared(defaultShared)
+    }
+  }, [open, defaultName, defaultShared])
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+
+    setLoading(true)
+    try {
+      await onSave(name.trim(), shared)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save view:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>
+            Saves the current search, filters, sort order and layout. Using the name of one of
+            your views updates it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name *</Label>
+            <Input
+              id="view-name"
+              placeholder="e.g. My overdue"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="view-shared" checked={shared} onCheckedChange={setShared} />
+            <Label htmlFor="view-shared" className="font-normal">Share with my teammates</Label>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || loading}>
+            {loading ? 'Saving...' : 'Save View'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Avatar, AvatarFallback } from './ui/avatar'
+import { Search } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { Highlight } from './Highlight'
+import { ProjectIcon } from './ProjectIcon'
+import { TaskFilterMenus } from './TaskFilterMenus'
+import { routes, taskPath, projectPath } from '../lib/routes'
+import { search, excerpt } from '../lib/search'
+import { getPriorityColor, getStatusColor, getStatusIcon } from '../lib/task-display'
+import { DEFAULT_TASK_FILTERS, matchesTaskFilters, type TaskFilters } from '../lib/task-filters'
+import { useSearchIndex } from '../hooks/use-search-index'
+import { useLabels } from '../hooks/use-labels'
+import { statusLabel } from '../data'
+
+export function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = searchParams.get('q') ?? ''
+  const [filters, setFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS)
+  const { index, loading, reload } = useSearchIndex()
+  const { labels } = useLabels()
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const results = search(index, query)
+  const tasks = results.tasks.filter(task => matchesTaskFilters(task, filters))
+  const taskTitles = new Map(index.tasks.map(task => [task.id, task.title]))
+  const total = tasks.length + results.projects.length + results.comments.length + results.members.length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Search</h1>
+        <p className="text-muted-foreground mt-1">
+          {query.trim()
+            ? `${total} ${total === 1 ? 'result' : 'results'} for "${query.trim()}"`
+            : 'Search tasks, projects, comments and teammates'}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search everything..."
+                  value={query}
+                  onChange={(e) => setSearchParams({ q: e.target.value }, { replace: true })}
+                  className="pl-10"
+                  autoFocus
+                />
+              </div>
+            </div>
+            <TaskFilterMenus filters={filters} onChange={setFilters} projects={index.projects} labels={labels} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading && total === 0 ? (
+        <div className="h-24 bg-muted rounded animate-pulse" />
+      ) : (
+        <>
+          {/* Tasks */}
+          {tasks.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Tasks ({tasks.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {tasks.map((task) => (
+                  <div key={task.id} className="border-b border-border pb-3 last:border-0 last:pb-0">
+                    <div className="flex items-center space-x-3">
+                      <Link to={taskPath(task.id)} className="font-medium text-foreground hover:underline">
+                        <Highlight text={task.title} query={query} />
+                      </Link>
+                      <Badge className={getPriorityColor(task.priority)}>{task.priority}</Badge>
+                      <Badge className={getStatusColor(task.status_category)}>
+                        <span className="flex items-center space-x-1">
+                          {getStatusIcon(task.status_category)}
+                          <span>{statusLabel(task, index.projects)}</span>
+                        </span>
+                      </Badge>
+                    </div>
+                    {task.description && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        <Highlight text={excerpt(task.description, query)} query={query} />
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Projects */}
+          {results.projects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Projects ({results.projects.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {results.projects.map((project) => (
+                  <div key={project.id} className="flex items-start space-x-3">
+                    <ProjectIcon project={project} className="mt-1" />
+                    <div>
+                      <Link to={projectPath(project.id)} className="font-medium text-foreground hover:underline">
+                        <Highlight text={project.name} query={query} />
+                      </Link>
+                      {project.description && (
+                        <p className="text-sm text-muted-foreground">
+                          <Highlight text={project.description} query={query} />
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Comments */}
+          {results.comments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Comments ({results.comments.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {results.comments.map((comment) => (
+                  <Link
+                    key={comment.id}
+                    to={taskPath(comment.task_id)}
+                    className="block rounded-md p-2 -mx-2 hover:bg-muted"
+                  >
+                    <p className="text-sm">
+                      <Highlight text={excerpt(comment.body, query)} query={query} />
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {comment.user_email.split('@')[0]} on "{taskTitles.get(comment.task_id) ?? 'a task'}" ·{' '}
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    </p>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Teammates */}
+          {results.members.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Teammates ({results.members.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {results.members.map((member) => (
+                  <Link key={member.id} to={routes.team} className="flex items-center space-x-3 rounded-md p-2 -mx-2 hover:bg-muted">
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback>{member.email.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="text-sm font-medium">
+                        <Highlight text={member.display_name || member.email} query={query} />
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        <Highlight text={member.email} query={query} />
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {query.trim() && total === 0 && (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <Search className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-foreground mb-2">No results found</h3>
+                <p className="text-muted-foreground">Try different words or fewer filters</p>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
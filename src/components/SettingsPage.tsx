@@ -10,8 +10,12 @@ import {
   Trash2,
   Download
 } from 'lucide-react'
+import { LabelSettings } from './LabelSettings'
+import { useTheme } from '../hooks/use-theme'
 
 export function SettingsPage() {
+  const { isDark, setDark } = useTheme()
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -68,7 +72,7 @@ export function SettingsPage() {
                 <Label htmlFor="dark-mode">Dark Mode</Label>
                 <p className="text-sm text-muted-foreground">Switch to dark theme</p>
               </div>
-              <Switch id="dark-mode" />
+              <Switch id="dark-mode" checked={isDark} onCheckedChange={setDark} />
             </div>
             <div className="flex items-center justify-between">
               <div>
@@ -80,6 +84,9 @@ export function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Labels */}
+        <LabelSettings />
+
         {/* Language & Region */}
         <Card>
           <CardHeader>
@@ -5,28 +5,30 @@ import {
   Settings, 
   User,
   Users,
-  Plus
+  Plus,
+  Bookmark,
+  Trash2
 } from 'lucide-react'
+import { Link, NavLink, useLocation } from 'react-router-dom'
 import { Button } from './ui/button'
 import { cn } from '../lib/utils'
-
-type Page = 'dashboard' | 'tasks' | 'projects' | 'team' | 'settings' | 'profile'
-
-interface SidebarProps {
-  currentPage: Page
-  onPageChange: (page: Page) => void
-}
+import { routes, viewPath } from '../lib/routes'
+import { useSavedViews } from '../hooks/use-saved-views'
 
 const navigation = [
-  { id: 'dashboard' as Page, label: 'Dashboard', icon: LayoutDashboard },
-  { id: 'tasks' as Page, label: 'Tasks', icon: CheckSquare },
-  { id: 'projects' as Page, label: 'Projects', icon: FolderOpen },
-  { id: 'team' as Page, label: 'Team', icon: Users },
-  { id: 'settings' as Page, label: 'Settings', icon: Settings },
-  { id: 'profile' as Page, label: 'Profile', icon: User },
+  { path: routes.dashboard, label: 'Dashboard', icon: LayoutDashboard },
+  { path: routes.tasks, label: 'Tasks', icon: CheckSquare },
+  { path: routes.projects, label: 'Projects', icon: FolderOpen },
+  { path: routes.team, label: 'Team', icon: Users },
+  { path: routes.trash, label: 'Trash', icon: Trash2 },
+  { path: routes.settings, label: 'Settings', icon: Settings },
+  { path: routes.profile, label: 'Profile', icon: User },
 ]
 
-export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
+export function Sidebar() {
+  const { pinnedViews } = useSavedViews()
+  const location = useLocation()
+
   return (
     <div className="w-64 bg-card border-r border-border flex flex-col">
       {/* Logo */}
@@ -51,13 +53,14 @@ export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
       <nav className="flex-1 px-4 space-y-1">
         {navigation.map((item) => {
           const Icon = item.icon
-          const isActive = currentPage === item.id
           
           return (
-            <button
-              key={item.id}
-              onClick={() => onPageChange(item.id)}
-              className={cn(
+            <NavLink
+              key={item.path}
+              to={item.path}
+              // Dashboard lives at "/" so it must not match every nested route
+              end={item.path === routes.dashboard}
+              className={({ isActive }) => cn(
                 "w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors",
                 isActive 
                   ? "bg-primary text-primary-foreground" 
@@ -66,9 +69,36 @@ export function Sidebar({ currentPage, onPageChange }: SidebarProps) {
             >
               <Icon className="w-4 h-4" />
               <span>{item.label}</span>
-            </button>
+            </NavLink>
           )
         })}
+
+        {/* Pinned Views */}
+        {pinnedViews.length > 0 && (
+          <div className="pt-4">
+            <p className="px-3 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              Views
+            </p>
+            {pinnedViews.map((view) => {
+              const isActive = location.pathname === routes.tasks && location.search.slice(1) === view.query
+              return (
+                <Link
+                  key={view.id}
+                  to={viewPath(view.query)}
+                  className={cn(
+                    "w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                    isActive
+                      ? "bg-muted text-foreground"
+                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                  )}
+                >
+                  <Bookmark className="w-4 h-4" />
+                  <span className="truncate">{view.name}</span>
+                </Link>
+              )
+            })}
+          </div>
+        )}
       </nav>
 
       {/* Footer */}
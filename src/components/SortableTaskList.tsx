@@ -0,0 +1,118 @@
+import { useState, type ReactNode } from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import { GripVertical } from 'lucide-react'
+import { cn } from '../lib/utils'
+import type { Task } from '../data'
+
+interface SortableTaskListProps {
+  tasks: Task[]
+  // Dragging is only offered while the list is in manual order
+  enabled: boolean
+  onReorder: (tasks: Task[], from: number, to: number) => void
+  // `dragHandle` is null while dragging is not available
+  renderTask: (task: Task, dragHandle: ReactNode) => ReactNode
+}
+
+interface SortableItemProps {
+  task: Task
+  enabled: boolean
+  // Where the dragged task would land relative to this one
+  indicator: 'before' | 'after' | null
+  children: (dragHandle: ReactNode) => ReactNode
+}
+
+function SortableItem({ task, enabled, indicator, children }: SortableItemProps) {
+  const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({
+    id: task.id,
+    disabled: !enabled,
+  })
+  const { setNodeRef: setDropRef } = useDroppable({ id: task.id, disabled: !enabled })
+
+  const dragHandle = enabled ? (
+    <button
+      type="button"
+      {...attributes}
+      {...listeners}
+      className="mt-1 mr-2 text-muted-foreground hover:text-foreground cursor-grab active:cursor-grabbing"
+      aria-label={`Reorder ${task.title}`}
+    >
+      <GripVertical className="w-4 h-4" />
+    </button>
+  ) : null
+
+  return (
+    <div
+      ref={(node) => {
+        setDragRef(node)
+        setDropRef(node)
+      }}
+      className={cn('relative', isDragging && 'opacity-40')}
+    >
+      {indicator === 'before' && <div className="absolute -top-2.5 inset-x-0 h-0.5 rounded bg-primary" />}
+      {children(dragHandle)}
+      {indicator === 'after' && <div className="absolute -bottom-2.5 inset-x-0 h-0.5 rounded bg-primary" />}
+    </div>
+  )
+}
+
+export function SortableTaskList({ tasks, enabled, onReorder, renderTask }: SortableTaskListProps) {
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null)
+  const [overTaskId, setOverTaskId] = useState<string | null>(null)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const activeIndex = tasks.findIndex(task => task.id === activeTaskId)
+  const overIndex = tasks.findIndex(task => task.id === overTaskId)
+
+  const resetDrag = () => {
+    setActiveTaskId(null)
+    setOverTaskId(null)
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    resetDrag()
+    const from = tasks.findIndex(task => task.id === event.active.id)
+    const to = tasks.findIndex(task => task.id === event.over?.id)
+    if (from >= 0 && to >= 0 && from !== to) onReorder(tasks, from, to)
+  }
+
+  const indicatorFor = (index: number) => {
+    if (activeIndex < 0 || index !== overIndex || index === activeIndex) return null
+    return activeIndex < overIndex ? 'after' : 'before'
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={(event) => setActiveTaskId(String(event.active.id))}
+      onDragOver={(event) => setOverTaskId(event.over ? String(event.over.id) : null)}
+      onDragEnd={handleDragEnd}
+      onDragCancel={resetDrag}
+    >
+      <div className="grid gap-4">
+        {tasks.map((task, index) => (
+          <SortableItem key={task.id} task={task} enabled={enabled} indicator={indicatorFor(index)}>
+            {(dragHandle) => renderTask(task, dragHandle)}
+          </SortableItem>
+        ))}
+      </div>
+      <DragOverlay>
+        {activeIndex >= 0 ? (
+          <div className="shadow-lg rounded-lg">{renderTask(tasks[activeIndex], null)}</div>
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  )
+}
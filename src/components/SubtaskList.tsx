@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { taskPath } from '../lib/routes'
+import { placeStatus, statusFields, type Task, type TaskInput, type TeamMember, type WorkflowStatus } from '../data'
+
+const UNASSIGNED = 'unassigned'
+
+interface SubtaskListProps {
+  subtasks: Task[]
+  // The parent's workflow, which its subtasks share
+  statuses: WorkflowStatus[]
+  teamMembers: TeamMember[]
+  onCreate: (data: TaskInput & { title: string }) => Promise<void>
+  onUpdate: (taskId: string, updates: TaskInput) => Promise<void>
+  onDelete: (taskId: string) => Promise<void>
+}
+
+export function SubtaskList({ subtasks, statuses, teamMembers, onCreate, onUpdate, onDelete }: SubtaskListProps) {
+  const [newTitle, setNewTitle] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  const handleAdd = async () => {
+    const title = newTitle.trim()
+    if (!title) return
+
+    setAdding(true)
+    try {
+      await onCreate({ title })
+      setNewTitle('')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleAssigneeChange = (subtask: Task, value: string) => {
+    const member = teamMembers.find(m => m.id === value)
+    onUpdate(subtask.id, {
+      assignee_id: member?.id,
+      assignee_email: member?.email,
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      {subtasks.map((subtask) => (
+        <div key={subtask.id} className="group flex items-center space-x-2">
+          <Select
+            value={placeStatus(statuses, subtask).id}
+            onValueChange={(value) => {
+              const status = statuses.find(s => s.id === value)
+              if (status) onUpdate(subtask.id, statusFields(status))
+            }}
+          >
+            <SelectTrigger className="h-8 w-[120px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map(({ id, name }) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Link
+            to={taskPath(subtask.id)}
+            className={cn(
+              'flex-1 truncate text-sm hover:underline',
+              subtask.status_category === 'done' && 'line-through text-muted-foreground'
+            )}
+          >
+            {subtask.title}
+          </Link>
+          <Select
+            value={subtask.assignee_id || UNASSIGNED}
+            onValueChange={(value) => handleAssigneeChange(subtask, value)}
+          >
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {teamMembers.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.display_name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100"
+            onClick={() => onDelete(subtask.id)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2">
+        <Input
+          placeholder="Add a subtask..."
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            }
+          }}
+          className="h-8"
+        />
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newTitle.trim() || adding}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
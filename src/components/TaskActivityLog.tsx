@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ActivityTimeline } from './ActivityTimeline'
+import { listTaskActivity, type Project, type Task, type TaskActivity } from '../data'
+
+interface TaskActivityLogProps {
+  task: Task
+  projects?: Project[]
+  // To name blocking tasks in the history
+  tasks?: Task[]
+}
+
+export function TaskActivityLog({ task, projects, tasks }: TaskActivityLogProps) {
+  const [entries, setEntries] = useState<TaskActivity[]>([])
+
+  const loadActivity = useCallback(async () => {
+    try {
+      setEntries(await listTaskActivity(task.id))
+    } catch (error) {
+      console.error('Failed to load task activity:', error)
+    }
+  }, [task.id])
+
+  // `task` changes identity on every saved edit, which is when there is something new to show
+  useEffect(() => {
+    loadActivity()
+  }, [loadActivity, task])
+
+  return <ActivityTimeline entries={entries} projects={projects} tasks={tasks} />
+}
@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  type DragStartEvent,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import { Card, CardContent } from './ui/card'
+import { Badge } from './ui/badge'
+import { Avatar, AvatarFallback } from './ui/avatar'
+import { Calendar } from 'lucide-react'
+import { LabelChips } from './LabelChips'
+import { BlockedBadge } from './BlockedBadge'
+import { format } from 'date-fns'
+import { cn } from '../lib/utils'
+import { taskPath } from '../lib/routes'
+import { getPriorityColor, getStatusIcon } from '../lib/task-display'
+import { placeStatus, type Task, type WorkflowStatus } from '../data'
+
+interface TaskBoardProps {
+  tasks: Task[]
+  // One column each; tasks from other workflows go in the first column of their category
+  statuses: WorkflowStatus[]
+  onStatusChange: (taskId: string, status: WorkflowStatus) => Promise<void>
+  // Where a card links to; defaults to the task's own page
+  getTaskPath?: (taskId: string) => string
+  // Unfinished tasks a task waits on, for the blocked badge
+  getBlockers?: (task: Task) => Task[]
+}
+
+interface CardLinks {
+  getTaskPath: (taskId: string) => string
+  getBlockers: (task: Task) => Task[]
+}
+
+interface BoardCardProps extends CardLinks {
+  task: Task
+  overlay?: boolean
+}
+
+function BoardCard({ task, getTaskPath, getBlockers, overlay = false }: BoardCardProps) {
+  // Keep the list's filters in the URL while the task is open
+  const { search } = useLocation()
+
+  return (
+    <Card className={cn('cursor-grab active:cursor-grabbing', overlay && 'shadow-lg rotate-2')}>
+      <CardContent className="p-4 space-y-2">
+        <Link
+          to={getTaskPath(task.id) + search}
+          className="block font-medium text-foreground hover:underline"
+        >
+          {task.title}
+        </Link>
+        <LabelChips labelIds={task.label_ids} />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <div className="flex items-center space-x-1">
+            <Badge className={getPriorityColor(task.priority)}>{task.priority}</Badge>
+            <BlockedBadge blockers={getBlockers(task)} />
+          </div>
+          <div className="flex items-center space-x-2">
+            {task.due_date && (
+              <span className="flex items-center">
+                <Calendar className="w-3 h-3 mr-1" />
+                {format(new Date(task.due_date), 'MMM d')}
+              </span>
+            )}
+            {task.assignee_email && (
+              <Avatar className="w-5 h-5">
+                <AvatarFallback className="text-xs">
+                  {task.assignee_email.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function DraggableCard({ task, ...links }: CardLinks & { task: Task }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: task.id })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={cn(isDragging && 'opacity-40')}
+    >
+      <BoardCard task={task} {...links} />
+    </div>
+  )
+}
+
+interface BoardColumnProps extends CardLinks {
+  status: WorkflowStatus
+  tasks: Task[]
+}
+
+function BoardColumn({ status, tasks, ...links }: BoardColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: status.id })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex flex-col rounded-lg bg-muted/40 border border-border p-3 min-h-[16rem] transition-colors',
+        isOver && 'border-primary bg-primary/5'
+      )}
+    >
+      <div className="flex items-center justify-between mb-3 px-1">
+        <span className="flex items-center space-x-2 text-sm font-semibold text-foreground">
+          {getStatusIcon(status.category)}
+          <span>{status.name}</span>
+        </span>
+        <Badge variant="secondary">{tasks.length}</Badge>
+      </div>
+      <div className="space-y-3 flex-1">
+        {tasks.map(task => (
+          <DraggableCard key={task.id} task={task} {...links} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function TaskBoard({
+  tasks,
+  statuses,
+  onStatusChange,
+  getTaskPath = taskPath,
+  getBlockers = () => [],
+}: TaskBoardProps) {
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null)
+  // A small drag distance keeps clicks on the task title working as links
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const activeTask = tasks.find(task => task.id === activeTaskId)
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTaskId(String(event.active.id))
+  }
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveTaskId(null)
+    if (!event.over) return
+
+    const task = tasks.find(t => t.id === event.active.id)
+    const newStatus = statuses.find(status => status.id === event.over?.id)
+    if (task && newStatus && placeStatus(statuses, task).id !== newStatus.id) {
+      await onStatusChange(task.id, newStatus)
+    }
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveTaskId(null)}
+    >
+      <div
+        className="grid gap-4 overflow-x-auto pb-2"
+        style={{ gridTemplateColumns: `repeat(${statuses.length}, minmax(16rem, 1fr))` }}
+      >
+        {statuses.map((status) => (
+          <BoardColumn
+            key={status.id}
+            status={status}
+            tasks={tasks.filter(task => placeStatus(statuses, task).id === status.id)}
+            getTaskPath={getTaskPath}
+            getBlockers={getBlockers}
+          />
+        ))}
+      </div>
+      <DragOverlay>
+        {activeTask ? <BoardCard task={activeTask} getTaskPath={getTaskPath} getBlockers={getBlockers} overlay /> : null}
+      </DragOverlay>
+    </DndContext>
+  )
+}
@@ -0,0 +1,341 @@
+import { useState, type ReactNode } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  type DragStartEvent,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Calendar } from './ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react'
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { useUserPreference } from '../hooks/use-user-preference'
+import { cn } from '../lib/utils'
+import { taskPath } from '../lib/routes'
+import { getPriorityColor } from '../lib/task-display'
+import { dueDateUpdates, type Project, type Task, type TaskInput } from '../data'
+
+type CalendarMode = 'month' | 'week'
+type CalendarColor = 'project' | 'priority'
+
+// Droppable id of the tray of tasks without a due date
+const UNSCHEDULED = 'unscheduled'
+
+// yyyy-MM-dd of the day a task is due, whether the due date has a time or not
+const dueDay = (task: Task) => task.due_date?.split('T')[0]
+
+const dayKey = (day: Date) => format(day, 'yyyy-MM-dd')
+
+interface TaskCalendarProps {
+  tasks: Task[]
+  projects: Project[]
+  // Moves a task to another day, or off the calendar without a due date
+  onReschedule: (taskId: string, updates: TaskInput) => Promise<void>
+  // Clicking the empty part of a day; `dueDate` is yyyy-MM-dd
+  onCreate: (dueDate: string) => void
+  // Where a task links to; defaults to the task's own page
+  getTaskPath?: (taskId: string) => string
+}
+
+interface CalendarTaskProps {
+  task: Task
+  color: CalendarColor
+  project?: Project
+  getTaskPath: (taskId: string) => string
+  overlay?: boolean
+}
+
+function CalendarTask({ task, color, project, getTaskPath, overlay = false }: CalendarTaskProps) {
+  // Keep the list's filters in the URL while the task is open
+  const { search } = useLocation()
+
+  return (
+    <div
+      className={cn(
+        'rounded border px-1.5 py-0.5 text-xs cursor-grab active:cursor-grabbing truncate',
+        color === 'priority' ? getPriorityColor(task.priority) : 'bg-background border-border',
+        overlay && 'shadow-lg'
+      )}
+      style={color === 'project' ? { borderLeft: `3px solid ${project?.color ?? 'hsl(var(--muted-foreground))'}` } : undefined}
+    >
+      <Link
+        to={getTaskPath(task.id) + search}
+        className={cn('hover:underline', task.status_category === 'done' && 'line-through opacity-70')}
+      >
+        {task.title}
+      </Link>
+    </div>
+  )
+}
+
+function DraggableTask(props: CalendarTaskProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: props.task.id })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      // Clicks on a task are not clicks on the empty part of its day
+      onClick={(e) => e.stopPropagation()}
+      className={cn(isDragging && 'opacity-40')}
+    >
+      <CalendarTask {...props} />
+    </div>
+  )
+}
+
+interface CalendarDayProps {
+  day: Date
+  inMonth: boolean
+  tall: boolean
+  children: ReactNode
+  onCreate: (dueDate: string) => void
+}
+
+function CalendarDay({ day, inMonth, tall, children, onCreate }: CalendarDayProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: dayKey(day) })
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={() => onCreate(dayKey(day))}
+      title={`New task due ${format(day, 'MMM d')}`}
+      className={cn(
+        'flex flex-col border-b border-r border-border p-1 cursor-pointer transition-colors hover:bg-muted/40',
+        tall ? 'min-h-[24rem]' : 'min-h-[7rem]',
+        !inMonth && 'bg-muted/20 text-muted-foreground',
+        isOver && 'bg-primary/5 ring-1 ring-inset ring-primary'
+      )}
+    >
+      <span
+        className={cn(
+          'mb-1 self-end rounded-full px-1.5 text-xs',
+          isToday(day) && 'bg-primary text-primary-foreground'
+        )}
+      >
+        {format(day, tall ? 'EEE d' : 'd')}
+      </span>
+      <div className="space-y-1 overflow-y-auto max-h-[20rem]">{children}</div>
+    </div>
+  )
+}
+
+function UnscheduledTray({ children, count }: { children: ReactNode; count: number }) {
+  const { setNodeRef, isOver } = useDroppable({ id: UNSCHEDULED })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex flex-col rounded-lg bg-muted/40 border border-border p-3 transition-colors lg:w-64 shrink-0',
+        isOver && 'border-primary bg-primary/5'
+      )}
+    >
+      <div className="flex items-center justify-between mb-3 px-1">
+        <span className="text-sm font-semibold text-foreground">Unscheduled</span>
+        <Badge variant="secondary">{count}</Badge>
+      </div>
+      <div className="space-y-1 flex-1 overflow-y-auto max-h-[40rem]">
+        {count === 0 ? (
+          <p className="px-1 text-xs text-muted-foreground">Drop a task here to clear its due date.</p>
+        ) : children}
+      </div>
+    </div>
+  )
+}
+
+export function TaskCalendar({ tasks, projects, onReschedule, onCreate, getTaskPath = taskPath }: TaskCalendarProps) {
+  const [mode, setMode] = useUserPreference<CalendarMode>('tasks.calendarMode', 'month')
+  const [color, setColor] = useUserPreference<CalendarColor>('tasks.calendarColor', 'project')
+  // Any day in the month or week on screen
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null)
+  const [jumpOpen, setJumpOpen] = useState(false)
+  // A small drag distance keeps clicks on the task title working as links
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const days = mode === 'month'
+    ? eachDayOfInterval({ start: startOfWeek(startOfMonth(anchor)), end: endOfWeek(endOfMonth(anchor)) })
+    : eachDayOfInterval({ start: startOfWeek(anchor), end: endOfWeek(anchor) })
+  const title = mode === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[6], 'MMM d, yyyy')}`
+
+  const tasksByDay = new Map<string, Task[]>()
+  for (const task of tasks) {
+    const day = dueDay(task)
+    if (day) tasksByDay.set(day, [...(tasksByDay.get(day) ?? []), task])
+  }
+  const unscheduled = tasks.filter(task => !task.due_date)
+  const projectsById = new Map(projects.map(project => [project.id, project]))
+  const activeTask = tasks.find(task => task.id === activeTaskId)
+
+  const step = (amount: number) => {
+    setAnchor(mode === 'month' ? addMonths(anchor, amount) : addWeeks(anchor, amount))
+  }
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTaskId(String(event.active.id))
+  }
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveTaskId(null)
+    if (!event.over) return
+
+    const task = tasks.find(t => t.id === event.active.id)
+    const target = event.over.id === UNSCHEDULED ? undefined : String(event.over.id)
+    if (task && dueDay(task) !== target) {
+      await onReschedule(task.id, dueDateUpdates(task, target))
+    }
+  }
+
+  const renderTask = (task: Task) => (
+    <DraggableTask
+      key={task.id}
+      task={task}
+      color={color}
+      project={task.project_id ? projectsById.get(task.project_id) : undefined}
+      getTaskPath={getTaskPath}
+    />
+  )
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveTaskId(null)}
+    >
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center space-x-1">
+            <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setAnchor(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Popover open={jumpOpen} onOpenChange={setJumpOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 text-base font-semibold">
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  {title}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={anchor}
+                  defaultMonth={anchor}
+                  onSelect={(day) => {
+                    if (day) setAnchor(day)
+                    setJumpOpen(false)
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select value={color} onValueChange={(value: CalendarColor) => setColor(value)}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="project">Color by project</SelectItem>
+                <SelectItem value="priority">Color by priority</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center rounded-md border border-border p-0.5">
+              {(['month', 'week'] as const).map((option) => (
+                <Button
+                  key={option}
+                  variant={mode === option ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2 capitalize"
+                  onClick={() => setMode(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-4 items-start">
+          <div className="flex-1 w-full rounded-lg border-l border-t border-border overflow-hidden">
+            <div className="grid grid-cols-7">
+              {days.slice(0, 7).map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className="border-b border-r border-border px-2 py-1 text-xs font-medium text-muted-foreground"
+                >
+                  {format(day, 'EEE')}
+                </div>
+              ))}
+              {days.map((day) => (
+                <CalendarDay
+                  key={dayKey(day)}
+                  day={day}
+                  inMonth={mode === 'week' || isSameMonth(day, anchor)}
+                  tall={mode === 'week'}
+                  onCreate={onCreate}
+                >
+                  {(tasksByDay.get(dayKey(day)) ?? []).map(renderTask)}
+                </CalendarDay>
+              ))}
+            </div>
+          </div>
+
+          <UnscheduledTray count={unscheduled.length}>
+            {unscheduled.map(renderTask)}
+          </UnscheduledTray>
+        </div>
+      </div>
+      <DragOverlay>
+        {activeTask ? (
+          <CalendarTask
+            task={activeTask}
+            color={color}
+            project={activeTask.project_id ? projectsById.get(activeTask.project_id) : undefined}
+            getTaskPath={getTaskPath}
+            overlay
+          />
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Checkbox } from './ui/checkbox'
+import { Plus, X } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { useToast } from '../hooks/use-toast'
+import {
+  createChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+  type ChecklistItem,
+} from '../data'
+
+interface TaskChecklistProps {
+  taskId: string
+  items: ChecklistItem[]
+  onChange: (items: ChecklistItem[]) => void
+}
+
+export function TaskChecklist({ taskId, items, onChange }: TaskChecklistProps) {
+  const [newItemText, setNewItemText] = useState('')
+  const { toast } = useToast()
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error)
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const handleAdd = async () => {
+    const text = newItemText.trim()
+    if (!text) return
+
+    try {
+      const position = items.reduce((max, item) => Math.max(max, item.position), 0) + 1
+      const item = await createChecklistItem(taskId, text, position)
+      onChange([...items, item])
+      setNewItemText('')
+    } catch (error) {
+      showError('Failed to add checklist item.', error)
+    }
+  }
+
+  const handleToggle = async (item: ChecklistItem) => {
+    try {
+      await updateChecklistItem(item.id, { done: !item.done })
+      onChange(items.map(i => i.id === item.id ? { ...i, done: !item.done } : i))
+    } catch (error) {
+      showError('Failed to update checklist item.', error)
+    }
+  }
+
+  const handleDelete = async (itemId: string) => {
+    try {
+      await deleteChecklistItem(itemId)
+      onChange(items.filter(i => i.id !== itemId))
+    } catch (error) {
+      showError('Failed to delete checklist item.', error)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.id} className="group flex items-center space-x-2">
+          <Checkbox
+            checked={item.done}
+            onCheckedChange={() => handleToggle(item)}
+          />
+          <span className={cn('flex-1 text-sm', item.done && 'line-through text-muted-foreground')}>
+            {item.text}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+            onClick={() => handleDelete(item.id)}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center space-x-2">
+        <Input
+          placeholder="Add an item..."
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            }
+          }}
+          className="h-8"
+        />
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newItemText.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
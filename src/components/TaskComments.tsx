@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { blink } from '../blink/client'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { Avatar, AvatarFallback } from './ui/avatar'
+import { Trash2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { cn } from '../lib/utils'
+import { taskUrl } from '../lib/routes'
+import { useToast } from '../hooks/use-toast'
+import {
+  mentionHandle,
+  getMentionQuery,
+  filterMembers,
+  extractMentions,
+  splitMentions,
+} from '../lib/mentions'
+import {
+  listComments,
+  createComment,
+  deleteComment,
+  createNotification,
+  type Comment,
+  type Task,
+  type TeamMember,
+} from '../data'
+
+interface TaskCommentsProps {
+  task: Task
+  teamMembers: TeamMember[]
+}
+
+export function TaskComments({ task, teamMembers }: TaskCommentsProps) {
+  const [comments, setComments] = useState<Comment[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [currentUserEmail, setCurrentUserEmail] = useState('')
+  const [body, setBody] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null)
+  const [highlightedIndex, setHighlightedIndex] = useState(0)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const { toast } = useToast()
+
+  const loadComments = useCallback(async () => {
+    try {
+      const user = await blink.auth.me()
+      setCurrentUserId(user.id)
+      setCurrentUserEmail(user.email)
+      setComments(await listComments(task.id))
+    } catch (error) {
+      console.error('Failed to load comments:', error)
+    }
+  }, [task.id])
+
+  useEffect(() => {
+    loadComments()
+  }, [loadComments])
+
+  const suggestions = mention ? filterMembers(teamMembers, mention.query).slice(0, 5) : []
+
+  const handleBodyChange = (value: string, caret: number) => {
+    setBody(value)
+    setMention(getMentionQuery(value, caret))
+    setHighlightedIndex(0)
+  }
+
+  const insertMention = (member: TeamMember) => {
+    if (!mention) return
+
+    const caret = mention.start + mention.query.length + 1
+    const handle = `@${mentionHandle(member)} `
+    const next = body.slice(0, mention.start) + handle + body.slice(caret)
+    setBody(next)
+    setMention(null)
+
+    const nextCaret = mention.start + handle.length
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handlePost = async () => {
+    const text = body.trim()
+    if (!text) return
+
+    setPosting(true)
+    try {
+      const user = await blink.auth.me()
+      const mentioned = extractMentions(text, teamMembers).filter(member => member.id !== user.id)
+      const comment = await createComment(user, task.id, text, mentioned.map(member => member.id))
+
+      setComments(prev => [...prev, comment])
+      setBody('')
+      setMention(null)
+
+      for (const member of mentioned) {
+        await createNotification({
+          user_id: member.id,
+          type: 'task_mentioned',
+          title: 'You were mentioned',
+          message: `${user.email} mentioned you in a comment on "${task.title}"`,
+          data: { task_id: task.id, comment_id: comment.id, author: user.email, url: taskUrl(task.id) }
+        })
+      }
+    } catch (error) {
+      console.error('Failed to post comment:', error)
+      toast({
+        title: "Error",
+        description: "Failed to post comment. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      await deleteComment(commentId)
+      setComments(prev => prev.filter(comment => comment.id !== commentId))
+    } catch (error) {
+      console.error('Failed to delete comment:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete comment. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setHighlightedIndex(i => (i + 1) % suggestions.length)
+        return
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setHighlightedIndex(i => (i - 1 + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        insertMention(suggestions[highlightedIndex])
+        return
+      }
+      if (e.key === 'Escape') {
+        // Close the suggestions without closing the surrounding dialog
+        e.preventDefault()
+        e.stopPropagation()
+        setMention(null)
+        return
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      handlePost()
+    }
+  }
+
+  // Own handle included so mentions of the current user are highlighted too
+  const handles = [
+    ...teamMembers.map(mentionHandle),
+    ...(currentUserEmail ? [currentUserEmail.split('@')[0]] : []),
+  ]
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the discussion!</p>
+      ) : (
+        <div className="space-y-3">
+          {comments.map((comment) => (
+            <div key={comment.id} className="group flex items-start space-x-3">
+              <Avatar className="h-7 w-7">
+                <AvatarFallback className="text-xs">
+                  {comment.user_email.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium">{comment.user_email.split('@')[0]}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                  {comment.user_id === currentUserId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 ml-auto opacity-0 group-hover:opacity-100"
+                      onClick={() => handleDelete(comment.id)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words">
+                  {splitMentions(comment.body, handles).map((part, index) => (
+                    <span
+                      key={index}
+                      className={cn(part.mention && 'rounded bg-primary/10 px-0.5 font-medium text-primary')}
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="relative">
+          <Textarea
+            ref={textareaRef}
+            placeholder="Write a comment... Use @ to mention a teammate"
+            value={body}
+            onChange={(e) => handleBodyChange(e.target.value, e.target.selectionStart)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setMention(null)}
+            rows={2}
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border border-border bg-popover p-1 shadow-md">
+              {suggestions.map((member, index) => (
+                <button
+                  key={member.id}
+                  type="button"
+                  // Keep focus in the textarea so onBlur does not close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    insertMention(member)
+                  }}
+                  className={cn(
+                    'w-full flex flex-col items-start rounded-sm px-2 py-1.5 text-left text-sm',
+                    index === highlightedIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+                  )}
+                >
+                  <span>@{mentionHandle(member)}</span>
+                  <span className="text-xs text-muted-foreground">{member.email}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">Ctrl/⌘ + Enter to post</span>
+          <Button size="sm" onClick={handlePost} disabled={!body.trim() || posting}>
+            {posting ? 'Posting...' : 'Comment'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from './ui/command'
+import { Plus, X } from 'lucide-react'
+import { useToast } from '../hooks/use-toast'
+import { cn } from '../lib/utils'
+import { taskPath } from '../lib/routes'
+import { getStatusIcon } from '../lib/task-display'
+import { createsCycle, getBlockedTasks, type Task } from '../data'
+
+interface TaskDependenciesProps {
+  task: Task
+  // Every task the user can see, to pick blockers from
+  tasks: Task[]
+  onChange: (blockedBy: string[]) => void
+}
+
+function DependencyRow({ task, onRemove }: { task: Task; onRemove?: () => void }) {
+  return (
+    <div className="group flex items-center space-x-2 text-sm">
+      {getStatusIcon(task.status_category)}
+      <Link
+        to={taskPath(task.id)}
+        className={cn(
+          'flex-1 truncate hover:underline',
+          task.status_category === 'done' && 'line-through text-muted-foreground'
+        )}
+      >
+        {task.title}
+      </Link>
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+          onClick={onRemove}
+          aria-label={`Remove ${task.title}`}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// Tasks this one is blocked by, which can be edited, and the tasks it blocks in turn
+export function TaskDependencies({ task, tasks, onChange }: TaskDependenciesProps) {
+  const [open, setOpen] = useState(false)
+  const { toast } = useToast()
+
+  const blockers = tasks.filter(other => task.blocked_by.includes(other.id))
+  const blocking = getBlockedTasks(task.id, tasks)
+  const candidates = tasks.filter(other => other.id !== task.id && !task.blocked_by.includes(other.id))
+
+  const handleAdd = (blocker: Task) => {
+    setOpen(false)
+    if (createsCycle(task.id, blocker.id, tasks)) {
+      toast({
+        title: "Error",
+        description: `"${blocker.title}" already waits on this task, so it cannot block it.`,
+        variant: "destructive",
+      })
+      return
+    }
+    onChange([...task.blocked_by, blocker.id])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-muted-foreground">Blocked by</p>
+        {blockers.map((blocker) => (
+          <DependencyRow
+            key={blocker.id}
+            task={blocker}
+            onRemove={() => onChange(task.blocked_by.filter(id => id !== blocker.id))}
+          />
+        ))}
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 px-2 text-muted-foreground">
+              <Plus className="w-4 h-4 mr-2" />
+              Add blocker
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Find a task..." />
+              <CommandList>
+                <CommandEmpty>No tasks found.</CommandEmpty>
+                <CommandGroup>
+                  {candidates.map((candidate) => (
+                    <CommandItem
+                      key={candidate.id}
+                      value={`${candidate.title} ${candidate.id}`}
+                      onSelect={() => handleAdd(candidate)}
+                    >
+                      <span className="mr-2">{getStatusIcon(candidate.status_category)}</span>
+                      <span className="truncate">{candidate.title}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {blocking.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Blocks</p>
+          {blocking.map((blocked) => (
+            <DependencyRow key={blocked.id} task={blocked} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
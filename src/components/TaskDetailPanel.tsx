@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { Switch } from './ui/switch'
+import { Separator } from './ui/separator'
+import { ChevronDown, ChevronUp, X } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { SubtaskList } from './SubtaskList'
+import { TaskChecklist } from './TaskChecklist'
+import { TaskComments } from './TaskComments'
+import { TaskActivityLog } from './TaskActivityLog'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import { ProjectIcon } from './ProjectIcon'
+import { LabelPicker } from './LabelPicker'
+import { TaskDependencies } from './TaskDependencies'
+import { formatRRule, parseRRule } from '../lib/recurrence'
+import { formatEstimate, parseEstimate } from '../lib/task-display'
+import {
+  placeStatus,
+  statusFields,
+  taskWorkflow,
+  type ChecklistItem,
+  type Project,
+  type Task,
+  type TaskInput,
+  type TaskPriority,
+  type TeamMember,
+} from '../data'
+
+// For recurring tasks: whether an edit applies to this occurrence only or to upcoming ones too
+export type EditScope = 'this' | 'future'
+
+interface TaskDetailPanelProps {
+  task: Task
+  // Every task the user can see, for dependencies
+  tasks: Task[]
+  projects: Project[]
+  teamMembers: TeamMember[]
+  // Called for every field as soon as it is edited
+  onSave: (updates: TaskInput, scope: EditScope) => Promise<void>
+  onClose: () => void
+  // Previous and next task in the list; unset at either end
+  onPrevious?: () => void
+  onNext?: () => void
+  subtasks: Task[]
+  onCreateSubtask: (data: TaskInput & { title: string }) => Promise<void>
+  onUpdateSubtask: (taskId: string, updates: TaskInput) => Promise<void>
+  onDeleteSubtask: (taskId: string) => Promise<void>
+  checklistItems: ChecklistItem[]
+  onChecklistChange: (items: ChecklistItem[]) => void
+}
+
+export function TaskDetailPanel({
+  task,
+  tasks,
+  projects,
+  teamMembers,
+  onSave,
+  onClose,
+  onPrevious,
+  onNext,
+  subtasks,
+  onCreateSubtask,
+  onUpdateSubtask,
+  onDeleteSubtask,
+  checklistItems,
+  onChecklistChange,
+}: TaskDetailPanelProps) {
+  // Text fields are saved when they lose focus rather than on every keystroke
+  const [title, setTitle] = useState(task.title)
+  const [description, setDescription] = useState(task.description || '')
+  const [estimate, setEstimate] = useState(formatEstimate(task.estimate))
+  const [editScope, setEditScope] = useState<EditScope>('this')
+
+  useEffect(() => {
+    setTitle(task.title)
+  }, [task.id, task.title])
+
+  useEffect(() => {
+    setDescription(task.description || '')
+  }, [task.id, task.description])
+
+  useEffect(() => {
+    setEstimate(formatEstimate(task.estimate))
+  }, [task.id, task.estimate])
+
+  useEffect(() => {
+    setEditScope('this')
+  }, [task.id])
+
+  const save = (updates: TaskInput) => onSave(updates, editScope)
+
+  const saveTitle = () => {
+    const trimmed = title.trim()
+    if (!trimmed) setTitle(task.title)
+    else if (trimmed !== task.title) save({ title: trimmed })
+  }
+
+  const saveDescription = () => {
+    const trimmed = description.trim()
+    if (trimmed !== (task.description || '')) save({ description: trimmed || undefined })
+  }
+
+  const saveEstimate = () => {
+    const hours = parseEstimate(estimate)
+    if (hours === null) setEstimate(formatEstimate(task.estimate))
+    else if (hours !== task.estimate) save({ estimate: hours })
+  }
+
+  const startDate = task.start_date ? task.start_date.split('T')[0] : ''
+  const dueDate = task.due_date ? task.due_date.split('T')[0] : ''
+  const statuses = taskWorkflow(task, projects)
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="flex items-center justify-between pb-3">
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onPrevious} disabled={!onPrevious} aria-label="Previous task">
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onNext} disabled={!onNext} aria-label="Next task">
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Created {format(parseISO(task.created_at), 'MMM d, yyyy')}
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose} aria-label="Close task">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={saveTitle}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="text-lg font-semibold"
+          aria-label="Title"
+        />
+
+        <Textarea
+          placeholder="Add a description..."
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onBlur={saveDescription}
+          rows={3}
+          aria-label="Description"
+        />
+
+        {(task.recurrence || task.series_id) && (
+          <Select value={editScope} onValueChange={(value: EditScope) => setEditScope(value)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="this">Changes apply to this task only</SelectItem>
+              <SelectItem value="future">Changes apply to this and future tasks</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="grid grid-cols-[6rem_1fr] items-center gap-x-3 gap-y-2 text-sm">
+          <Label>Status</Label>
+          <Select
+            value={placeStatus(statuses, task).id}
+            onValueChange={(value) => {
+              const status = statuses.find(s => s.id === value)
+              if (status) save(statusFields(status))
+            }}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map((status) => (
+                <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label>Priority</Label>
+          <Select value={task.priority} onValueChange={(value: TaskPriority) => save({ priority: value })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="low">Low</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Label>Assignee</Label>
+          <Select
+            value={task.assignee_id || 'none'}
+            onValueChange={(value) => {
+              const member = teamMembers.find(m => m.id === value)
+              save({ assignee_id: member?.id, assignee_email: member?.email })
+            }}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue>
+                {task.assignee_id
+                  ? teamMembers.find(m => m.id === task.assignee_id)?.display_name || task.assignee_email
+                  : 'Unassigned'}
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {teamMembers.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.display_name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label>Project</Label>
+          <Select
+            value={task.project_id || 'none'}
+            onValueChange={(value) => save({ project_id: value === 'none' ? undefined : value })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  <div className="flex items-center space-x-2">
+                    <ProjectIcon project={project} className="w-3 h-3" />
+                    <span>{project.name}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label>Labels</Label>
+          <LabelPicker value={task.label_ids} onChange={(labelIds) => save({ label_ids: labelIds })} />
+
+          <Label htmlFor="detail-start-date">Start date</Label>
+          <Input
+            id="detail-start-date"
+            type="date"
+            value={startDate}
+            max={dueDate || undefined}
+            onChange={(e) => save({ start_date: e.target.value || undefined })}
+            className="h-8"
+          />
+
+          <Label htmlFor="detail-due-date">Due date</Label>
+          <Input
+            id="detail-due-date"
+            type="date"
+            value={dueDate}
+            min={startDate || undefined}
+            onChange={(e) => save({ due_date: e.target.value || undefined })}
+            className="h-8"
+          />
+
+          <Label htmlFor="detail-estimate">Estimate</Label>
+          <Input
+            id="detail-estimate"
+            placeholder="Hours, e.g. 2.5"
+            value={estimate}
+            onChange={(e) => setEstimate(e.target.value)}
+            onBlur={saveEstimate}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="h-8"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Repeat</Label>
+          <RecurrenceEditor
+            key={task.id}
+            value={parseRRule(task.recurrence)}
+            onChange={(rule) => save({ recurrence: rule ? formatRRule(rule) : undefined })}
+            anchor={dueDate ? parseISO(dueDate) : new Date()}
+          />
+        </div>
+
+        <Separator />
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>
+              Subtasks ({subtasks.filter(t => t.status_category === 'done').length}/{subtasks.length})
+            </Label>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="detail-auto-complete"
+                checked={task.auto_complete}
+                onCheckedChange={(checked) => save({ auto_complete: checked })}
+              />
+              <Label htmlFor="detail-auto-complete" className="text-xs font-normal text-muted-foreground">
+                Complete when all subtasks are done
+              </Label>
+            </div>
+          </div>
+          <SubtaskList
+            subtasks={subtasks}
+            statuses={statuses}
+            teamMembers={teamMembers}
+            onCreate={onCreateSubtask}
+            onUpdate={onUpdateSubtask}
+            onDelete={onDeleteSubtask}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Dependencies</Label>
+          <TaskDependencies task={task} tasks={tasks} onChange={(blockedBy) => save({ blocked_by: blockedBy })} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>
+            Checklist ({checklistItems.filter(i => i.done).length}/{checklistItems.length})
+          </Label>
+          <TaskChecklist taskId={task.id} items={checklistItems} onChange={onChecklistChange} />
+        </div>
+
+        <Separator />
+        <div className="space-y-2">
+          <Label>Comments</Label>
+          <TaskComments task={task} teamMembers={teamMembers} />
+        </div>
+
+        <Separator />
+        <div className="space-y-2">
+          <Label>History</Label>
+          <TaskActivityLog task={task} projects={projects} tasks={tasks} />
+        </div>
+      </div>
+    </div>
+  )
+}
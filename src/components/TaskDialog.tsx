@@ -19,81 +19,59 @@ import {
 } from './ui/select'
 import { Avatar, AvatarFallback } from './ui/avatar'
 import { User } from 'lucide-react'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import { ProjectIcon } from './ProjectIcon'
+import { LabelPicker } from './LabelPicker'
+import { parseISO } from 'date-fns'
+import { formatRRule, type RecurrenceRule } from '../lib/recurrence'
+import {
+  listTeamMembers,
+  projectWorkflow,
+  statusFields,
+  type TaskInput,
+  type TaskPriority,
+  type TeamMember,
+  type Project,
+} from '../data'
 
-interface Task {
-  id: string
-  title: string
-  description?: string
-  status: 'todo' | 'in_progress' | 'done'
-  priority: 'low' | 'medium' | 'high'
-  due_date?: string
-  project_id?: string
-  user_id: string
-  assignee_id?: string
-  assignee_email?: string
-  created_at: string
-  updated_at: string
-}
-
-interface TeamMember {
-  id: string
-  email: string
-  display_name?: string
-}
-
+// Creates tasks; existing tasks are edited in the TaskDetailPanel
 interface TaskDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  task?: Task | null
-  onSave: (data: Partial<Task>) => Promise<void>
+  projects?: Project[]
+  // Preselected project, e.g. when creating from a project page
+  defaultProjectId?: string
+  // Prefilled due date, yyyy-MM-dd, e.g. when creating from a calendar day
+  defaultDueDate?: string
+  onSave: (data: TaskInput) => Promise<void>
 }
 
-export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps) {
+export function TaskDialog({
+  open,
+  onOpenChange,
+  projects = [],
+  defaultProjectId,
+  defaultDueDate,
+  onSave,
+}: TaskDialogProps) {
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
-  const [status, setStatus] = useState<Task['status']>('todo')
-  const [priority, setPriority] = useState<Task['priority']>('medium')
+  // Id of a status in the chosen project's workflow; unset means its first status
+  const [status, setStatus] = useState('')
+  const [priority, setPriority] = useState<TaskPriority>('medium')
+  const [startDate, setStartDate] = useState('')
   const [dueDate, setDueDate] = useState('')
   const [assigneeId, setAssigneeId] = useState<string>('')
+  const [projectId, setProjectId] = useState<string>('')
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null)
+  const [labelIds, setLabelIds] = useState<string[]>([])
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
   const [loading, setLoading] = useState(false)
 
   const loadTeamMembers = useCallback(async () => {
     try {
       const user = await blink.auth.me()
-      
-      // Load accepted connections to get team members
-      const connections = await blink.db.user_connections.list({
-        where: {
-          AND: [
-            {
-              OR: [
-                { requester_id: user.id },
-                { recipient_id: user.id }
-              ]
-            },
-            { status: 'accepted' }
-          ]
-        }
-      })
-
-      const members: TeamMember[] = []
-      
-      for (const conn of connections) {
-        const memberId = conn.requester_id === user.id ? conn.recipient_id : conn.requester_id
-        const memberEmail = conn.requester_id === user.id ? conn.recipient_email : conn.requester_email
-        
-        if (memberId && memberEmail) {
-          members.push({
-            id: memberId,
-            email: memberEmail,
-            display_name: memberEmail.split('@')[0]
-          })
-        }
-      }
-      
-      setTeamMembers(members)
-
+      setTeamMembers(await listTeamMembers(user.id))
     } catch (error) {
       console.error('Error loading team members:', error)
     }
@@ -106,22 +84,20 @@ export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps
   }, [open, loadTeamMembers])
 
   useEffect(() => {
-    if (task) {
-      setTitle(task.title)
-      setDescription(task.description || '')
-      setStatus(task.status)
-      setPriority(task.priority)
-      setDueDate(task.due_date ? task.due_date.split('T')[0] : '')
-      setAssigneeId(task.assignee_id || '')
-    } else {
-      setTitle('')
-      setDescription('')
-      setStatus('todo')
-      setPriority('medium')
-      setDueDate('')
-      setAssigneeId('')
-    }
-  }, [task, open])
+    setTitle('')
+    setDescription('')
+    setStatus('')
+    setPriority('medium')
+    setStartDate('')
+    setDueDate(defaultDueDate || '')
+    setAssigneeId('')
+    setProjectId(defaultProjectId || '')
+    setRecurrence(null)
+    setLabelIds([])
+  }, [open, defaultProjectId, defaultDueDate])
+
+  const statuses = projectWorkflow(projects.find(project => project.id === projectId))
+  const selectedStatus = statuses.find(s => s.id === status) ?? statuses[0]
 
   const handleSave = async () => {
     if (!title.trim()) return
@@ -133,11 +109,15 @@ export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps
       await onSave({
         title: title.trim(),
         description: description.trim() || undefined,
-        status,
+        ...statusFields(selectedStatus),
         priority,
+        start_date: startDate || undefined,
         due_date: dueDate || undefined,
         assignee_id: assigneeId || undefined,
         assignee_email: assignee?.email || undefined,
+        project_id: projectId || undefined,
+        recurrence: recurrence ? formatRRule(recurrence) : undefined,
+        label_ids: labelIds,
       })
       onOpenChange(false)
     } catch (error) {
@@ -149,11 +129,9 @@ export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>
-            {task ? 'Edit Task' : 'Create New Task'}
-          </DialogTitle>
+          <DialogTitle>Create New Task</DialogTitle>
         </DialogHeader>
         
         <div className="space-y-4 py-4">
@@ -224,25 +202,55 @@ export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps
             </Select>
           </div>
 
+          {/* Project */}
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select
+              value={projectId || 'none'}
+              onValueChange={(value) => setProjectId(value === 'none' ? '' : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No project</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    <div className="flex items-center space-x-2">
+                      <ProjectIcon project={project} className="w-3 h-3" />
+                      <span>{project.name}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Labels */}
+          <div className="space-y-2">
+            <Label>Labels</Label>
+            <LabelPicker value={labelIds} onChange={setLabelIds} />
+          </div>
+
           {/* Status and Priority */}
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>Status</Label>
-              <Select value={status} onValueChange={(value: Task['status']) => setStatus(value)}>
+              <Select value={selectedStatus.id} onValueChange={setStatus}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="todo">To Do</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="done">Done</SelectItem>
+                  {statuses.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
               <Label>Priority</Label>
-              <Select value={priority} onValueChange={(value: Task['priority']) => setPriority(value)}>
+              <Select value={priority} onValueChange={(value: TaskPriority) => setPriority(value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -255,14 +263,37 @@ export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps
             </div>
           </div>
 
-          {/* Due Date */}
+          {/* Dates */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="start-date">Start Date</Label>
+              <Input
+                id="start-date"
+                type="date"
+                value={startDate}
+                max={dueDate || undefined}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="due-date">Due Date</Label>
+              <Input
+                id="due-date"
+                type="date"
+                value={dueDate}
+                min={startDate || undefined}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Recurrence */}
           <div className="space-y-2">
-            <Label htmlFor="due-date">Due Date</Label>
-            <Input
-              id="due-date"
-              type="date"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
+            <Label>Repeat</Label>
+            <RecurrenceEditor
+              value={recurrence}
+              onChange={setRecurrence}
+              anchor={dueDate ? parseISO(dueDate) : new Date()}
             />
           </div>
         </div>
@@ -279,7 +310,7 @@ export function TaskDialog({ open, onOpenChange, task, onSave }: TaskDialogProps
             onClick={handleSave}
             disabled={!title.trim() || loading}
           >
-            {loading ? 'Saving...' : task ? 'Update Task' : 'Create Task'}
+            {loading ? 'Saving...' : 'Create Task'}
           </Button>
         </div>
       </DialogContent>
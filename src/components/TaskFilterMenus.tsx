@@ -0,0 +1,123 @@
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { Filter, FolderOpen, Tag } from 'lucide-react'
+import { ProjectIcon } from './ProjectIcon'
+import { categoryFilter, type TaskFilters } from '../lib/task-filters'
+import { STATUS_CATEGORIES, type Project, type TaskLabel, type WorkflowStatus } from '../data'
+
+interface TaskFilterMenusProps {
+  filters: TaskFilters
+  onChange: (filters: TaskFilters) => void
+  // A single workflow to filter by status; without one the menu offers status categories
+  statuses?: WorkflowStatus[]
+  // The project menu is left out when not given, e.g. on a project's own page
+  projects?: Project[]
+  // The label menu is left out when not given
+  labels?: TaskLabel[]
+}
+
+export function TaskFilterMenus({ filters, onChange, statuses, projects, labels }: TaskFilterMenusProps) {
+  const setFilter = (key: keyof TaskFilters, value: string) => onChange({ ...filters, [key]: value })
+
+  const statusOptions = statuses
+    ? statuses.map(status => ({ value: status.id, label: status.name }))
+    : STATUS_CATEGORIES.map(category => ({ value: categoryFilter(category.value), label: category.label }))
+  const statusLabel = filters.status === 'all'
+    ? 'All'
+    : statusOptions.find(option => option.value === filters.status)?.label ?? filters.status.replace(/_/g, ' ')
+
+  const projectLabel = filters.project === 'all'
+    ? 'All'
+    : filters.project === 'none' ? 'None' : projects?.find(p => p.id === filters.project)?.name
+
+  const labelLabel = filters.label === 'all'
+    ? 'All'
+    : filters.label === 'none' ? 'None' : labels?.find(l => l.id === filters.label)?.name
+
+  return (
+    <>
+      {/* Status Filter */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full sm:w-auto">
+            <Filter className="w-4 h-4 mr-2" />
+            Status: {statusLabel}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => setFilter('status', 'all')}>All</DropdownMenuItem>
+          {statusOptions.map((option) => (
+            <DropdownMenuItem key={option.value} onClick={() => setFilter('status', option.value)}>
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Priority Filter */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full sm:w-auto">
+            <Filter className="w-4 h-4 mr-2" />
+            Priority: {filters.priority === 'all' ? 'All' : filters.priority}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => setFilter('priority', 'all')}>All</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setFilter('priority', 'high')}>High</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setFilter('priority', 'medium')}>Medium</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setFilter('priority', 'low')}>Low</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Project Filter */}
+      {projects && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto">
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Project: {projectLabel}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => setFilter('project', 'all')}>All</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setFilter('project', 'none')}>No project</DropdownMenuItem>
+            {projects.map((project) => (
+              <DropdownMenuItem key={project.id} onClick={() => setFilter('project', project.id)}>
+                <ProjectIcon project={project} className="mr-2" />
+                {project.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {/* Label Filter */}
+      {labels && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto">
+              <Tag className="w-4 h-4 mr-2" />
+              Label: {labelLabel}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => setFilter('label', 'all')}>All</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setFilter('label', 'none')}>No labels</DropdownMenuItem>
+            {labels.map((label) => (
+              <DropdownMenuItem key={label.id} onClick={() => setFilter('label', label.id)}>
+                <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: label.color }} />
+                {label.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,108 @@
+import { useState, useRef } from 'react'
+import { Input } from './ui/input'
+import { Search, AlertCircle } from 'lucide-react'
+import { cn } from '../lib/utils'
+import {
+  getQuerySuggestions,
+  type QueryError,
+  type QuerySuggestionContext,
+} from '../lib/task-query'
+
+interface TaskQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  errors: QueryError[]
+  suggestionContext: QuerySuggestionContext
+}
+
+export function TaskQueryInput({ value, onChange, errors, suggestionContext }: TaskQueryInputProps) {
+  const [caret, setCaret] = useState(0)
+  const [focused, setFocused] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+  const [highlightedIndex, setHighlightedIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const completion = getQuerySuggestions(value, caret, suggestionContext)
+  const suggestions = focused && !dismissed ? completion.suggestions : []
+
+  const applySuggestion = (insert: string) => {
+    const next = value.slice(0, completion.start) + insert + value.slice(completion.end)
+    const nextCaret = completion.start + insert.length
+    onChange(next)
+    setCaret(nextCaret)
+    setHighlightedIndex(0)
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlightedIndex(i => (i + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlightedIndex(i => (i - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      applySuggestion(suggestions[Math.min(highlightedIndex, suggestions.length - 1)].insert)
+    } else if (e.key === 'Escape') {
+      setDismissed(true)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          placeholder="Search or filter, e.g. status:todo priority:high due:<7d"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCaret(e.target.selectionStart ?? e.target.value.length)
+            setDismissed(false)
+            setHighlightedIndex(0)
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={handleKeyDown}
+          className={cn('pl-10 font-mono text-sm', errors.length > 0 && 'border-destructive')}
+          aria-invalid={errors.length > 0}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border border-border bg-popover p-1 shadow-md">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.insert}
+                type="button"
+                // Keep focus in the input so onBlur does not close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  applySuggestion(suggestion.insert)
+                }}
+                className={cn(
+                  'w-full rounded-sm px-2 py-1.5 text-left font-mono text-sm',
+                  index === highlightedIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+                )}
+              >
+                {suggestion.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {errors.map((error) => (
+        <p key={`${error.start}:${error.message}`} className="flex items-center text-sm text-destructive">
+          <AlertCircle className="w-4 h-4 mr-1 shrink-0" />
+          {error.message}
+          <code className="ml-2 rounded bg-muted px-1 text-xs text-muted-foreground">
+            {value.slice(error.start, error.end)}
+          </code>
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,586 @@
+import { useState, useEffect, useRef, type KeyboardEvent, type PointerEvent, type ReactNode } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { Columns3, Maximize2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { LabelChips } from './LabelChips'
+import { LabelPicker } from './LabelPicker'
+import { ProjectIcon } from './ProjectIcon'
+import { useUserPreference } from '../hooks/use-user-preference'
+import { cn } from '../lib/utils'
+import { taskPath } from '../lib/routes'
+import { formatEstimate, getPriorityColor, getStatusColor, parseEstimate } from '../lib/task-display'
+import {
+  dueDateUpdates,
+  isOverdue,
+  placeStatus,
+  statusFields,
+  statusLabel,
+  taskWorkflow,
+  type Project,
+  type Task,
+  type TaskInput,
+  type TaskPriority,
+  type TeamMember,
+} from '../data'
+
+type TableColumnId =
+  | 'title'
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'project'
+  | 'due'
+  | 'created'
+  | 'updated'
+  | 'labels'
+  | 'estimate'
+
+interface TableColumn {
+  id: TableColumnId
+  label: string
+  width: number
+  // Created and updated dates are kept by the app
+  editable: boolean
+}
+
+const TABLE_COLUMNS: TableColumn[] = [
+  { id: 'title', label: 'Title', width: 320, editable: true },
+  { id: 'status', label: 'Status', width: 140, editable: true },
+  { id: 'priority', label: 'Priority', width: 100, editable: true },
+  { id: 'assignee', label: 'Assignee', width: 150, editable: true },
+  { id: 'project', label: 'Project', width: 160, editable: true },
+  { id: 'due', label: 'Due', width: 130, editable: true },
+  { id: 'created', label: 'Created', width: 120, editable: false },
+  { id: 'updated', label: 'Updated', width: 120, editable: false },
+  { id: 'labels', label: 'Labels', width: 200, editable: true },
+  { id: 'estimate', label: 'Estimate', width: 90, editable: true },
+]
+
+// Shown columns in order, with the width each was resized to
+interface ColumnPreference {
+  id: TableColumnId
+  width: number
+}
+
+const DEFAULT_COLUMNS: ColumnPreference[] = TABLE_COLUMNS
+  .filter(column => column.id !== 'created' && column.id !== 'updated')
+  .map(({ id, width }) => ({ id, width }))
+
+const MIN_COLUMN_WIDTH = 60
+const ROW_HEIGHT = 36
+// Rows rendered above and below the visible ones, so fast scrolling does not show gaps
+const OVERSCAN = 10
+const NONE = 'none'
+
+// The task rather than its row, so the cell stays with the task when an edit re-sorts the rows
+interface CellPosition {
+  taskId: string
+  column: number
+}
+
+interface TaskTableProps {
+  tasks: Task[]
+  projects: Project[]
+  teamMembers: TeamMember[]
+  onUpdate: (task: Task, updates: TaskInput) => Promise<void>
+  // Where a task links to; defaults to the task's own page
+  getTaskPath?: (taskId: string) => string
+}
+
+interface CellEditorProps {
+  task: Task
+  columnId: TableColumnId
+  projects: Project[]
+  teamMembers: TeamMember[]
+  // `stay` keeps the editor open, for editors that save as they go
+  onCommit: (updates: TaskInput, move?: 'down' | 'right' | 'stay') => void
+  onCancel: () => void
+}
+
+// Text fields are saved on Enter, Tab or leaving the cell; Escape drops the change
+function TextEditor({ initial, type = 'text', onCommit, onCancel }: {
+  initial: string
+  type?: string
+  onCommit: (value: string, move?: 'down' | 'right') => void
+  onCancel: () => void
+}) {
+  const [value, setValue] = useState(initial)
+  const done = useRef(false)
+
+  const finish = (move?: 'down' | 'right') => {
+    if (done.current) return
+    done.current = true
+    onCommit(value, move)
+  }
+
+  return (
+    <Input
+      autoFocus
+      type={type}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => finish()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish('down')
+        else if (e.key === 'Tab') {
+          e.preventDefault()
+          finish('right')
+        } else if (e.key === 'Escape') {
+          done.current = true
+          onCancel()
+        }
+      }}
+      className="h-7 px-2 text-sm"
+    />
+  )
+}
+
+// Lists open right away; picking an option saves it
+function SelectEditor({ value, options, onCommit, onCancel }: {
+  value: string
+  options: { value: string; label: ReactNode }[]
+  onCommit: (value: string) => void
+  onCancel: () => void
+}) {
+  return (
+    <Select defaultOpen value={value} onValueChange={onCommit} onOpenChange={(open) => !open && onCancel()}>
+      <SelectTrigger className="h-7 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function CellEditor({ task, columnId, projects, teamMembers, onCommit, onCancel }: CellEditorProps) {
+  switch (columnId) {
+    case 'title':
+      return (
+        <TextEditor
+          initial={task.title}
+          onCommit={(value, move) => value.trim() && value.trim() !== task.title
+            ? onCommit({ title: value.trim() }, move)
+            : onCommit({}, move)}
+          onCancel={onCancel}
+        />
+      )
+    case 'status': {
+      const statuses = taskWorkflow(task, projects)
+      return (
+        <SelectEditor
+          value={placeStatus(statuses, task).id}
+          options={statuses.map(status => ({ value: status.id, label: status.name }))}
+          onCommit={(value) => {
+            const status = statuses.find(s => s.id === value)
+            onCommit(status ? statusFields(status) : {})
+          }}
+          onCancel={onCancel}
+        />
+      )
+    }
+    case 'priority':
+      return (
+        <SelectEditor
+          value={task.priority}
+          options={(['low', 'medium', 'high'] as TaskPriority[]).map(priority => ({ value: priority, label: priority }))}
+          onCommit={(value) => onCommit({ priority: value as TaskPriority })}
+          onCancel={onCancel}
+        />
+      )
+    case 'assignee':
+      return (
+        <SelectEditor
+          value={task.assignee_id ?? NONE}
+          options={[
+            { value: NONE, label: 'Unassigned' },
+            ...teamMembers.map(member => ({ value: member.id, label: member.email })),
+          ]}
+          onCommit={(value) => {
+            const member = teamMembers.find(m => m.id === value)
+            onCommit({ assignee_id: member?.id, assignee_email: member?.email })
+          }}
+          onCancel={onCancel}
+        />
+      )
+    case 'project':
+      return (
+        <SelectEditor
+          value={task.project_id ?? NONE}
+          options={[
+            { value: NONE, label: 'No project' },
+            ...projects.map(project => ({ value: project.id, label: project.name })),
+          ]}
+          onCommit={(value) => onCommit({ project_id: value === NONE ? undefined : value })}
+          onCancel={onCancel}
+        />
+      )
+    case 'due':
+      return (
+        <TextEditor
+          type="date"
+          initial={task.due_date?.split('T')[0] ?? ''}
+          onCommit={(value, move) => onCommit(dueDateUpdates(task, value || undefined), move)}
+          onCancel={onCancel}
+        />
+      )
+    case 'estimate':
+      return (
+        <TextEditor
+          initial={formatEstimate(task.estimate)}
+          onCommit={(value, move) => {
+            const hours = parseEstimate(value)
+            onCommit(hours === null ? {} : { estimate: hours }, move)
+          }}
+          onCancel={onCancel}
+        />
+      )
+    case 'labels':
+      return <LabelPicker value={task.label_ids} onChange={(labelIds) => onCommit({ label_ids: labelIds }, 'stay')} />
+    default:
+      return null
+  }
+}
+
+/**
+ * Dense, spreadsheet-like list of tasks. Only the rows in view are rendered,
+ * so long lists stay fast. Columns can be shown, hidden, resized and dragged
+ * into a different order; the layout is remembered per user.
+ */
+export function TaskTable({ tasks, projects, teamMembers, onUpdate, getTaskPath = taskPath }: TaskTableProps) {
+  const [storedColumns, setStoredColumns] = useUserPreference<ColumnPreference[]>('tasks.tableColumns', DEFAULT_COLUMNS)
+  const [active, setActive] = useState<CellPosition | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(600)
+  // Width of the column being resized, before it is saved on release
+  const [resizing, setResizing] = useState<{ id: TableColumnId; startX: number; startWidth: number; width: number } | null>(null)
+  const [draggedColumn, setDraggedColumn] = useState<TableColumnId | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const tableRef = useRef<HTMLTableElement>(null)
+  // Keep the list's filters in the URL while the task is open
+  const { search } = useLocation()
+
+  // Stored preferences may name columns that no longer exist
+  const columns = storedColumns.flatMap(preference => {
+    const column = TABLE_COLUMNS.find(c => c.id === preference.id)
+    if (!column) return []
+    const width = resizing?.id === column.id ? resizing.width : preference.width
+    return [{ ...column, width }]
+  })
+  const projectsById = new Map(projects.map(project => [project.id, project]))
+  // -1 once the active task is filtered out of the table
+  const activeRow = active ? tasks.findIndex(task => task.id === active.taskId) : -1
+
+  // The table's own wrapper is what scrolls
+  useEffect(() => {
+    const element = tableRef.current?.parentElement
+    if (!element) return
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Keep the active cell in view while moving with the keyboard
+  useEffect(() => {
+    const element = tableRef.current?.parentElement
+    if (!element || activeRow < 0) return
+    const headerHeight = tableRef.current?.tHead?.offsetHeight ?? ROW_HEIGHT
+    const top = activeRow * ROW_HEIGHT
+    if (top < element.scrollTop) {
+      element.scrollTop = top
+    } else if (top + ROW_HEIGHT > element.scrollTop + element.clientHeight - headerHeight) {
+      element.scrollTop = top + ROW_HEIGHT - element.clientHeight + headerHeight
+    }
+  }, [activeRow])
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const lastRow = Math.min(tasks.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN)
+  const visibleRows = tasks.slice(firstRow, lastRow)
+
+  const toggleColumn = (id: TableColumnId, shown: boolean) => {
+    if (shown) {
+      const column = TABLE_COLUMNS.find(c => c.id === id)!
+      setStoredColumns([...storedColumns, { id, width: column.width }])
+    } else {
+      setStoredColumns(storedColumns.filter(column => column.id !== id))
+      setActive(null)
+    }
+  }
+
+  const moveColumn = (id: TableColumnId, beforeId: TableColumnId) => {
+    if (id === beforeId) return
+    const moved = storedColumns.find(column => column.id === id)
+    if (!moved) return
+    const rest = storedColumns.filter(column => column.id !== id)
+    const index = rest.findIndex(column => column.id === beforeId)
+    setStoredColumns([...rest.slice(0, index), moved, ...rest.slice(index)])
+  }
+
+  const startResize = (e: PointerEvent<HTMLElement>, id: TableColumnId, width: number) => {
+    e.preventDefault()
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setResizing({ id, startX: e.clientX, startWidth: width, width })
+  }
+
+  const moveResize = (e: PointerEvent<HTMLElement>) => {
+    if (!resizing) return
+    setResizing({ ...resizing, width: Math.max(MIN_COLUMN_WIDTH, resizing.startWidth + e.clientX - resizing.startX) })
+  }
+
+  const endResize = () => {
+    if (!resizing) return
+    setStoredColumns(storedColumns.map(column => column.id === resizing.id ? { ...column, width: resizing.width } : column))
+    setResizing(null)
+  }
+
+  const moveActive = (rowDelta: number, columnDelta: number) => {
+    if (tasks.length === 0 || columns.length === 0) return
+    const row = activeRow < 0 ? 0 : Math.min(tasks.length - 1, Math.max(0, activeRow + rowDelta))
+    const column = active ? Math.min(columns.length - 1, Math.max(0, active.column + columnDelta)) : 0
+    setActive({ taskId: tasks[row].id, column })
+  }
+
+  const startEditing = () => {
+    if (active && activeRow >= 0 && columns[active.column]?.editable) setEditing(true)
+  }
+
+  const stopEditing = () => {
+    setEditing(false)
+    containerRef.current?.focus()
+  }
+
+  const commit = async (task: Task, updates: TaskInput, move?: 'down' | 'right' | 'stay') => {
+    if (move !== 'stay') stopEditing()
+    if (move === 'down') moveActive(1, 0)
+    if (move === 'right') moveActive(0, 1)
+    if (Object.keys(updates).length > 0) await onUpdate(task, updates)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Editors handle their own keys, including ones from their popups
+    if (editing && activeRow >= 0) {
+      if (e.key === 'Escape') stopEditing()
+      return
+    }
+    if (e.key === 'Tab' && !active) return
+    switch (e.key) {
+      case 'ArrowUp': moveActive(-1, 0); break
+      case 'ArrowDown': moveActive(1, 0); break
+      case 'ArrowLeft': moveActive(0, -1); break
+      case 'ArrowRight': moveActive(0, 1); break
+      case 'Tab': moveActive(0, e.shiftKey ? -1 : 1); break
+      case 'Enter':
+      case 'F2': startEditing(); break
+      case 'Escape': setActive(null); break
+      default: return
+    }
+    e.preventDefault()
+  }
+
+  const renderValue = (task: Task, columnId: TableColumnId) => {
+    switch (columnId) {
+      case 'title':
+        return (
+          <span className="flex items-center space-x-2">
+            <span className={cn('truncate font-medium', task.status_category === 'done' && 'line-through text-muted-foreground')}>
+              {task.title}
+            </span>
+            <Link
+              to={getTaskPath(task.id) + search}
+              onClick={(e) => e.stopPropagation()}
+              className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+              aria-label={`Open ${task.title}`}
+            >
+              <Maximize2 className="w-3.5 h-3.5" />
+            </Link>
+          </span>
+        )
+      case 'status':
+        return <Badge className={getStatusColor(task.status_category)}>{statusLabel(task, projects)}</Badge>
+      case 'priority':
+        return <Badge className={getPriorityColor(task.priority)}>{task.priority}</Badge>
+      case 'assignee':
+        return task.assignee_email?.split('@')[0] ?? <span className="text-muted-foreground">Unassigned</span>
+      case 'project': {
+        const project = task.project_id ? projectsById.get(task.project_id) : undefined
+        return project ? (
+          <span className="flex items-center space-x-2">
+            <ProjectIcon project={project} className="w-3 h-3" />
+            <span className="truncate">{project.name}</span>
+          </span>
+        ) : null
+      }
+      case 'due':
+        return task.due_date ? (
+          <span className={cn(isOverdue(task) && 'text-destructive')}>
+            {format(parseISO(task.due_date), 'MMM d, yyyy')}
+          </span>
+        ) : null
+      case 'created':
+        return format(parseISO(task.created_at), 'MMM d, yyyy')
+      case 'updated':
+        return format(parseISO(task.updated_at), 'MMM d, yyyy')
+      case 'labels':
+        return <LabelChips labelIds={task.label_ids} className="flex-nowrap overflow-hidden" />
+      case 'estimate':
+        return formatEstimate(task.estimate)
+    }
+  }
+
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Arrow keys move between cells; Enter edits, Escape cancels.
+        </p>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="w-4 h-4 mr-2" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Shown columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {TABLE_COLUMNS.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={columns.some(c => c.id === column.id)}
+                disabled={column.id === 'title'}
+                onCheckedChange={(checked) => toggleColumn(column.id, checked)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setStoredColumns(DEFAULT_COLUMNS)}>
+              Reset to default
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onScrollCapture={(e) => {
+          // Scrolling inside an editor's popup reaches here too, through the portal
+          const scroller = tableRef.current?.parentElement
+          if (e.target === scroller) setScrollTop(scroller.scrollTop)
+        }}
+        className="rounded-lg border border-border h-[calc(100vh-22rem)] min-h-[24rem] focus:outline-none focus-visible:ring-2 focus-visible:ring-ring [&>div]:h-full"
+      >
+        <Table ref={tableRef} className="table-fixed" style={{ width: tableWidth }}>
+          <colgroup>
+            {columns.map((column) => (
+              <col key={column.id} style={{ width: column.width }} />
+            ))}
+          </colgroup>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead
+                  key={column.id}
+                  draggable={!resizing}
+                  onDragStart={() => setDraggedColumn(column.id)}
+                  onDragOver={(e) => {
+                    if (draggedColumn) e.preventDefault()
+                  }}
+                  onDrop={() => {
+                    if (draggedColumn) moveColumn(draggedColumn, column.id)
+                    setDraggedColumn(null)
+                  }}
+                  onDragEnd={() => setDraggedColumn(null)}
+                  className={cn(
+                    'sticky top-0 z-10 h-9 bg-background select-none cursor-move',
+                    draggedColumn === column.id && 'opacity-50'
+                  )}
+                >
+                  <span className="truncate">{column.label}</span>
+                  <span
+                    className="absolute inset-y-0 right-0 w-1.5 cursor-col-resize hover:bg-primary/40"
+                    onPointerDown={(e) => startResize(e, column.id, column.width)}
+                    onPointerMove={moveResize}
+                    onPointerUp={endResize}
+                    aria-hidden
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {visibleRows.map((task) => (
+              <TableRow key={task.id} className="group" style={{ height: ROW_HEIGHT }}>
+                {columns.map((column, columnIndex) => {
+                  const isActive = active?.taskId === task.id && active.column === columnIndex
+                  return (
+                    <TableCell
+                      key={column.id}
+                      onClick={() => {
+                        if (isActive) return
+                        setEditing(false)
+                        setActive({ taskId: task.id, column: columnIndex })
+                      }}
+                      onDoubleClick={() => {
+                        setActive({ taskId: task.id, column: columnIndex })
+                        if (column.editable) setEditing(true)
+                      }}
+                      className={cn(
+                        'py-0 px-2 truncate',
+                        isActive && 'ring-2 ring-inset ring-primary',
+                        !column.editable && 'text-muted-foreground'
+                      )}
+                    >
+                      {isActive && editing ? (
+                        <CellEditor
+                          task={task}
+                          columnId={column.id}
+                          projects={projects}
+                          teamMembers={teamMembers}
+                          onCommit={(updates, move) => commit(task, updates, move)}
+                          onCancel={stopEditing}
+                        />
+                      ) : renderValue(task, column.id)}
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+            {lastRow < tasks.length && <tr style={{ height: (tasks.length - lastRow) * ROW_HEIGHT }} />}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
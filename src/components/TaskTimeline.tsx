@@ -0,0 +1,326 @@
+import { useState, useEffect, useRef, type PointerEvent } from 'react'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { Button } from './ui/button'
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns'
+import { useUserPreference } from '../hooks/use-user-preference'
+import { cn } from '../lib/utils'
+import { taskPath } from '../lib/routes'
+import type { StatusCategory, Task, TaskInput } from '../data'
+
+type TimelineZoom = 'day' | 'week' | 'month'
+
+// Width of one day, in pixels
+const DAY_WIDTH: Record<TimelineZoom, number> = { day: 40, week: 16, month: 4 }
+const HEADER_HEIGHT = 32
+const ROW_HEIGHT = 36
+
+const BAR_COLORS: Record<StatusCategory, string> = {
+  not_started: 'bg-slate-400',
+  active: 'bg-blue-500',
+  done: 'bg-green-500',
+}
+
+interface Span {
+  start: Date
+  // Inclusive
+  end: Date
+}
+
+// Which part of a bar is being dragged: the whole bar or one of its ends
+type DragKind = 'move' | 'start' | 'end'
+
+interface DragState {
+  taskId: string
+  kind: DragKind
+  originX: number
+  // Whole days the pointer has moved so far
+  offset: number
+}
+
+// Days a task's bar covers; a task with only one of its dates set takes up that day
+function taskSpan(task: Task): Span | undefined {
+  const start = task.start_date ?? task.due_date
+  const end = task.due_date ?? task.start_date
+  if (!start || !end) return
+  const span = { start: parseISO(start.split('T')[0]), end: parseISO(end.split('T')[0]) }
+  return span.start <= span.end ? span : { start: span.end, end: span.start }
+}
+
+function dragSpan(span: Span, kind: DragKind, offset: number): Span {
+  switch (kind) {
+    case 'move': return { start: addDays(span.start, offset), end: addDays(span.end, offset) }
+    case 'start': return { ...span, start: min([addDays(span.start, offset), span.end]) }
+    case 'end': return { ...span, end: max([addDays(span.end, offset), span.start]) }
+  }
+}
+
+// Moving a bar keeps a task with one date at one date; pulling an end out sets the other
+function dragUpdates(task: Task, kind: DragKind, span: Span): TaskInput {
+  const updates: TaskInput = {}
+  if (kind !== 'end' && (task.start_date || kind === 'start')) updates.start_date = format(span.start, 'yyyy-MM-dd')
+  if (kind !== 'start' && (task.due_date || kind === 'end')) updates.due_date = format(span.end, 'yyyy-MM-dd')
+  return updates
+}
+
+interface TaskTimelineProps {
+  tasks: Task[]
+  onReschedule: (taskId: string, updates: TaskInput) => Promise<void>
+  // Where a task links to; defaults to the task's own page
+  getTaskPath?: (taskId: string) => string
+}
+
+export function TaskTimeline({ tasks, onReschedule, getTaskPath = taskPath }: TaskTimelineProps) {
+  const [zoom, setZoom] = useUserPreference<TimelineZoom>('tasks.timelineZoom', 'week')
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const navigate = useNavigate()
+  // Keep the list's filters in the URL while the task is open
+  const { search } = useLocation()
+
+  const dayWidth = DAY_WIDTH[zoom]
+  const today = startOfDay(new Date())
+
+  const spanOf = (task: Task) => {
+    const span = taskSpan(task)
+    return span && drag?.taskId === task.id ? dragSpan(span, drag.kind, drag.offset) : span
+  }
+
+  const rows = tasks
+    .flatMap(task => {
+      const span = spanOf(task)
+      return span ? [{ task, span }] : []
+    })
+    .sort((a, b) => a.span.start.getTime() - b.span.start.getTime() || a.span.end.getTime() - b.span.end.getTime())
+  const undatedCount = tasks.length - rows.length
+
+  // A week of room before the earliest date and two after the latest, today included
+  const first = subDays(min([today, ...rows.map(row => row.span.start)]), 7)
+  const last = addDays(max([today, ...rows.map(row => row.span.end)]), 14)
+  const rangeStart = zoom === 'month' ? startOfMonth(first) : startOfWeek(first)
+  const rangeEnd = zoom === 'month' ? endOfMonth(last) : endOfWeek(last)
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd })
+
+  const x = (day: Date) => differenceInCalendarDays(day, rangeStart) * dayWidth
+  const rowMiddle = (index: number) => HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2
+  const todayX = x(today)
+
+  const ticks = days.filter(day =>
+    zoom === 'day' ? true : zoom === 'week' ? day.getDay() === 0 : day.getDate() === 1
+  )
+  const tickLabel = (day: Date) => {
+    if (zoom === 'month') return format(day, 'MMM yyyy')
+    if (zoom === 'week' || day.getDate() === 1) return format(day, 'MMM d')
+    return format(day, 'd')
+  }
+
+  // Start with today in view
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollLeft = Math.max(0, todayX - 120)
+  }, [zoom, todayX])
+
+  const startDrag = (e: PointerEvent<HTMLElement>, taskId: string, kind: DragKind) => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ taskId, kind, originX: e.clientX, offset: 0 })
+  }
+
+  const moveDrag = (e: PointerEvent<HTMLElement>) => {
+    if (!drag) return
+    const offset = Math.round((e.clientX - drag.originX) / dayWidth)
+    if (offset !== drag.offset) setDrag({ ...drag, offset })
+  }
+
+  const endDrag = async (task: Task) => {
+    if (!drag) return
+    const { kind, offset } = drag
+    setDrag(null)
+    // A click without any movement opens the task
+    if (offset === 0) {
+      if (kind === 'move') navigate(getTaskPath(task.id) + search)
+      return
+    }
+    const span = taskSpan(task)
+    if (span) await onReschedule(task.id, dragUpdates(task, kind, dragSpan(span, kind, offset)))
+  }
+
+  const rowIndex = new Map(rows.map((row, index) => [row.task.id, index]))
+  const arrows = rows.flatMap(({ task, span }, index) =>
+    task.blocked_by.flatMap(blockerId => {
+      const blockerIndex = rowIndex.get(blockerId)
+      if (blockerIndex === undefined) return []
+      const blocker = rows[blockerIndex]
+      const x1 = x(blocker.span.end) + dayWidth
+      const y1 = rowMiddle(blockerIndex)
+      const x2 = x(span.start)
+      const y2 = rowMiddle(index)
+      // Out of the blocker's end, along the gap above the blocked row, into its start
+      const gapY = y2 > y1 ? y2 - ROW_HEIGHT / 2 : y2 + ROW_HEIGHT / 2
+      return [{
+        key: `${blockerId}-${task.id}`,
+        path: `M ${x1} ${y1} H ${x1 + 6} V ${gapY} H ${x2 - 6} V ${y2} H ${x2}`,
+        // The blocked task is planned to start before its blocker is due
+        conflict: blocker.span.end >= span.start,
+      }]
+    })
+  )
+
+  const width = days.length * dayWidth
+  const height = HEADER_HEIGHT + rows.length * ROW_HEIGHT
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {undatedCount > 0
+            ? `${undatedCount} ${undatedCount === 1 ? 'task has' : 'tasks have'} no start or due date and ${undatedCount === 1 ? 'is' : 'are'} not shown.`
+            : 'Drag a bar to move it, or its ends to change the start and due dates.'}
+        </p>
+        <div className="flex items-center rounded-md border border-border p-0.5">
+          {(['day', 'week', 'month'] as const).map((option) => (
+            <Button
+              key={option}
+              variant={zoom === option ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 capitalize"
+              onClick={() => setZoom(option)}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex rounded-lg border border-border overflow-hidden bg-background">
+        <div className="w-56 shrink-0 border-r border-border">
+          <div
+            className="flex items-center border-b border-border px-3 text-xs font-medium text-muted-foreground"
+            style={{ height: HEADER_HEIGHT }}
+          >
+            Task
+          </div>
+          {rows.map(({ task }) => (
+            <div
+              key={task.id}
+              className="flex items-center border-b border-border px-3 text-sm"
+              style={{ height: ROW_HEIGHT }}
+            >
+              <Link
+                to={getTaskPath(task.id) + search}
+                className={cn('truncate hover:underline', task.status_category === 'done' && 'line-through text-muted-foreground')}
+              >
+                {task.title}
+              </Link>
+            </div>
+          ))}
+        </div>
+
+        <div ref={scrollRef} className="flex-1 overflow-x-auto">
+          <div className="relative" style={{ width, height }}>
+            {ticks.map((day) => (
+              <div
+                key={day.toISOString()}
+                className="absolute top-0 bottom-0 border-l border-border/60"
+                style={{ left: x(day) }}
+              >
+                <span className="absolute top-2 left-1 whitespace-nowrap text-xs text-muted-foreground">
+                  {tickLabel(day)}
+                </span>
+              </div>
+            ))}
+            <div className="absolute inset-x-0 border-b border-border" style={{ top: HEADER_HEIGHT - 1 }} />
+            {rows.map(({ task }, index) => (
+              <div
+                key={task.id}
+                className="absolute inset-x-0 border-b border-border/60"
+                style={{ top: HEADER_HEIGHT + (index + 1) * ROW_HEIGHT - 1 }}
+              />
+            ))}
+
+            <div
+              className="absolute bottom-0 w-px bg-red-500"
+              style={{ left: todayX + dayWidth / 2, top: HEADER_HEIGHT - 8 }}
+              title="Today"
+            />
+
+            <svg className="absolute inset-0 pointer-events-none text-muted-foreground" width={width} height={height}>
+              <defs>
+                <marker id="timeline-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+                </marker>
+                <marker
+                  id="timeline-arrow-conflict"
+                  className="text-destructive"
+                  viewBox="0 0 6 6"
+                  refX="6"
+                  refY="3"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto"
+                >
+                  <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+                </marker>
+              </defs>
+              {arrows.map((arrow) => (
+                <path
+                  key={arrow.key}
+                  d={arrow.path}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                  className={cn(arrow.conflict && 'text-destructive')}
+                  markerEnd={`url(#${arrow.conflict ? 'timeline-arrow-conflict' : 'timeline-arrow'})`}
+                />
+              ))}
+            </svg>
+
+            {rows.map(({ task, span }, index) => (
+              <div
+                key={task.id}
+                className={cn(
+                  'group absolute flex items-center rounded text-xs text-white shadow-sm select-none touch-none',
+                  BAR_COLORS[task.status_category],
+                  drag?.taskId === task.id ? 'cursor-grabbing ring-2 ring-primary' : 'cursor-grab'
+                )}
+                style={{
+                  left: x(span.start),
+                  width: (differenceInCalendarDays(span.end, span.start) + 1) * dayWidth,
+                  top: HEADER_HEIGHT + index * ROW_HEIGHT + 6,
+                  height: ROW_HEIGHT - 12,
+                }}
+                title={`${task.title}: ${format(span.start, 'MMM d')} – ${format(span.end, 'MMM d, yyyy')}`}
+                onPointerDown={(e) => startDrag(e, task.id, 'move')}
+                onPointerMove={moveDrag}
+                onPointerUp={() => endDrag(task)}
+                onPointerCancel={() => setDrag(null)}
+              >
+                <span
+                  className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l opacity-0 group-hover:opacity-100 bg-black/20"
+                  onPointerDown={(e) => startDrag(e, task.id, 'start')}
+                />
+                <span className="truncate px-2">{task.title}</span>
+                <span
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r opacity-0 group-hover:opacity-100 bg-black/20"
+                  onPointerDown={(e) => startDrag(e, task.id, 'end')}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,19 +1,30 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react'
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
-import { Input } from './ui/input'
 import { Badge } from './ui/badge'
 import { Avatar, AvatarFallback } from './ui/avatar'
+import { Progress } from './ui/progress'
+import { Checkbox } from './ui/checkbox'
+import { ToastAction, type ToastActionElement } from './ui/toast'
 import { 
   Plus, 
-  Search, 
-  Filter, 
   MoreHorizontal,
   Calendar,
   CheckSquare,
-  Clock,
-  AlertCircle,
-  User
+  User,
+  List,
+  Kanban,
+  CalendarDays,
+  GanttChart,
+  Sheet,
+  Repeat,
+  CircleCheck,
+  ArrowUpDown,
+  Layers,
+  ChevronDown,
+  ChevronRight,
+  FolderOpen
 } from 'lucide-react'
 import {
   DropdownMenu,
@@ -21,51 +32,148 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu'
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from './ui/resizable'
 import { TaskDialog } from './TaskDialog'
+import { TaskDetailPanel, type EditScope } from './TaskDetailPanel'
+import { TaskBoard } from './TaskBoard'
+import { SortableTaskList } from './SortableTaskList'
+import { BulkActionBar } from './BulkActionBar'
+import { LabelChips } from './LabelChips'
+import { ProjectHeader } from './ProjectHeader'
+import { TaskCalendar } from './TaskCalendar'
+import { TaskTimeline } from './TaskTimeline'
+import { TaskTable } from './TaskTable'
+import { BlockedBadge } from './BlockedBadge'
+import { TaskFilterMenus } from './TaskFilterMenus'
+import { TaskQueryInput } from './TaskQueryInput'
+import { ViewsMenu } from './ViewsMenu'
 import { blink } from '../blink/client'
-import { format } from 'date-fns'
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns'
 import { useToast } from '../hooks/use-toast'
-
-interface Task {
-  id: string
-  title: string
-  description?: string
-  status: 'todo' | 'in_progress' | 'done'
-  priority: 'low' | 'medium' | 'high'
-  due_date?: string
-  project_id?: string
-  user_id: string
-  assignee_id?: string
-  assignee_email?: string
-  created_at: string
-  updated_at: string
-}
+import { useUserPreference } from '../hooks/use-user-preference'
+import { useRegisterCommands } from '../hooks/use-commands'
+import { useLabels } from '../hooks/use-labels'
+import { routes, taskPath, taskUrl, projectPath, projectTaskPath, viewPath } from '../lib/routes'
+import { countTasks, getPriorityColor, getStatusColor, getStatusIcon } from '../lib/task-display'
+import { cn } from '../lib/utils'
+import { hasTaskFilters, matchesTaskFilters } from '../lib/task-filters'
+import {
+  SORT_OPTIONS,
+  GROUP_OPTIONS,
+  groupTasks,
+  readViewParams,
+  writeViewParams,
+  sortTasks,
+  type TaskLayout,
+  type TaskViewState,
+} from '../lib/task-view'
+import { parseTaskQuery, matchesTaskQuery } from '../lib/task-query'
+import { describeRecurrence, isWithinSeries, nextOccurrence, parseRRule } from '../lib/recurrence'
+import { reorderRanks } from '../lib/rank'
+import {
+  listTasks,
+  createTask,
+  updateTask,
+  trashTask,
+  restoreTask,
+  getProject,
+  listProjects,
+  listTeamMembers,
+  createNotification,
+  getSubtasks,
+  getDescendants,
+  seriesKey,
+  isOverdue,
+  listChecklistItems,
+  diffTask,
+  logTaskActivity,
+  getOpenBlockers,
+  getBlockedTasks,
+  updateProject,
+  projectWorkflow,
+  taskWorkflow,
+  placeStatus,
+  firstOfCategory,
+  statusFields,
+  statusLabel,
+  type ChecklistItem,
+  type Task,
+  type TaskInput,
+  type Project,
+  type TeamMember,
+  type FieldChange,
+  type TaskActivityAction,
+  type WorkflowStatus,
+} from '../data'
 
 export function TasksPage() {
+  // `/tasks/:taskId` opens a task, `/projects/:projectId` scopes the list to one project,
+  // `/projects/:projectId/tasks/:taskId` does both
+  const { taskId, projectId } = useParams()
+  const location = useLocation()
+  const navigate = useNavigate()
   const [tasks, setTasks] = useState<Task[]>([])
+  // `tasks` plus the updates saved since the last render, so each step of a
+  // bulk action sees the ones before it
+  const latestTasks = useRef<Task[]>([])
+  // Tasks trashed from this page, whose links are gone for a known reason
+  const trashedIds = useRef(new Set<string>())
+  const [checklistItems, setChecklistItems] = useState<ChecklistItem[]>([])
+  const [project, setProject] = useState<Project | null>(null)
+  const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [statusFilter, setStatusFilter] = useState<string>('all')
-  const [priorityFilter, setPriorityFilter] = useState<string>('all')
+  // Search, filters, sort and layout live in the URL so views can be saved and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set())
+  // Last task clicked without shift; the other end of a shift-click range
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null)
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
   const [isDialogOpen, setIsDialogOpen] = useState(false)
-  const [editingTask, setEditingTask] = useState<Task | null>(null)
+  // Due date the new task dialog opens with, from clicking a calendar day
+  const [newTaskDueDate, setNewTaskDueDate] = useState<string>()
+  const [preferredLayout, setPreferredLayout] = useUserPreference<TaskLayout>('tasks.layout', 'list')
+  // "<groupBy>:<group key>" of every group the user folded away
+  const [collapsedGroups, setCollapsedGroups] = useUserPreference<string[]>('tasks.collapsedGroups', [])
+  // Width of the task detail panel, in percent of the split view
+  const [detailPanelSize, setDetailPanelSize] = useUserPreference<number>('tasks.detailPanelSize', 40)
+  const { labels } = useLabels()
   const { toast } = useToast()
 
+  const editingTask = taskId ? tasks.find(task => task.id === taskId) ?? null : null
+
+  // A task opens next to the list it was clicked in, keeping the list's filters in the URL
+  const taskDetailPath = (id: string) => projectId ? projectTaskPath(projectId, id) : taskPath(id)
+  const listPath = (projectId ? projectPath(projectId) : routes.tasks) + location.search
+
+  const view = readViewParams(searchParams)
+  // The timeline plans a single project, so the full list shows the list instead
+  const requestedLayout = view.layout ?? preferredLayout
+  const layout = requestedLayout === 'timeline' && !projectId ? 'list' : requestedLayout
+  const updateView = (changes: Partial<TaskViewState>) => {
+    setSearchParams(writeViewParams({ ...view, ...changes }), { replace: true })
+  }
+  const setLayout = (next: TaskLayout) => {
+    setPreferredLayout(next)
+    updateView({ layout: next })
+  }
+  const openNewTask = (dueDate?: string) => {
+    setNewTaskDueDate(dueDate)
+    setIsDialogOpen(true)
+  }
+
   const loadTasks = useCallback(async () => {
     try {
       const user = await blink.auth.me()
-      
-      // Load tasks created by user OR assigned to user
-      const allTasks = await blink.db.tasks.list({
-        where: {
-          OR: [
-            { user_id: user.id },
-            { assignee_id: user.id }
-          ]
-        },
-        orderBy: { created_at: 'desc' }
-      })
+      const [allTasks, allProjects, members] = await Promise.all([
+        listTasks(user.id),
+        listProjects(user.id),
+        listTeamMembers(user.id),
+      ])
       setTasks(allTasks)
+      setProjects(allProjects)
+      setTeamMembers(members)
+      setChecklistItems(await listChecklistItems(allTasks.map(task => task.id)))
     } catch (error) {
       console.error('Failed to load tasks:', error)
       toast({
@@ -82,34 +190,90 @@ export function TasksPage() {
     loadTasks()
   }, [loadTasks])
 
-  const handleCreateTask = async (taskData: Partial<Task>) => {
+  useEffect(() => {
+    latestTasks.current = tasks
+  }, [tasks])
+
+  const loadProject = useCallback(async () => {
+    if (!projectId) {
+      setProject(null)
+      return
+    }
+    try {
+      setProject(await getProject(projectId))
+    } catch (error) {
+      console.error('Failed to load project:', error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    loadProject()
+  }, [loadProject])
+
+  // "New task" from the command palette on another page
+  useEffect(() => {
+    if (location.state?.newTask) {
+      setNewTaskDueDate(undefined)
+      setIsDialogOpen(true)
+      navigate(location.pathname, { replace: true, state: null })
+    }
+  }, [location, navigate])
+
+  // A link to a task the user cannot see (or that no longer exists) falls back to the list
+  useEffect(() => {
+    if (loading || !taskId || editingTask) return
+    if (!trashedIds.current.has(taskId)) {
+      toast({
+        title: "Task not found",
+        description: "The task you are looking for does not exist or is not shared with you.",
+        variant: "destructive",
+      })
+    }
+    navigate(listPath, { replace: true })
+  }, [loading, taskId, editingTask, listPath, navigate, toast])
+
+  const recordActivity = async (task: Task, action: TaskActivityAction, changes?: FieldChange[]) => {
+    await logTaskActivity(await blink.auth.me(), task, action, changes)
+  }
+
+  // A status picked from another workflow, or one a task's new project does not have,
+  // becomes the matching status of the task's own workflow
+  const fitStatus = (task: Task, updates: TaskInput): TaskInput => {
+    const targetProjectId = 'project_id' in updates ? updates.project_id : task.project_id
+    const status = placeStatus(projectWorkflow(projects.find(p => p.id === targetProjectId)), {
+      status: updates.status ?? task.status,
+      status_category: updates.status_category ?? task.status_category,
+    })
+    return 'status' in updates || status.id !== task.status ? { ...updates, ...statusFields(status) } : updates
+  }
+
+  const handleCreateTask = async (taskData: TaskInput) => {
     try {
       const user = await blink.auth.me()
-      const newTask = await blink.db.tasks.create({
-        id: `task_${Date.now()}`,
+      const targetProjectId = taskData.project_id || projectId
+      // Without a status a new task starts at the beginning of its project's workflow
+      const status = placeStatus(projectWorkflow(projects.find(p => p.id === targetProjectId)), {
+        status: taskData.status ?? '',
+        status_category: taskData.status_category ?? 'not_started',
+      })
+      const newTask = await createTask(user.id, {
+        ...taskData,
+        ...statusFields(status),
         title: taskData.title!,
-        description: taskData.description || '',
-        status: taskData.status || 'todo',
-        priority: taskData.priority || 'medium',
-        due_date: taskData.due_date || null,
-        project_id: taskData.project_id || null,
-        user_id: user.id,
-        assignee_id: taskData.assignee_id || null,
-        assignee_email: taskData.assignee_email || null,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        project_id: targetProjectId
       })
       
       setTasks(prev => [newTask, ...prev])
+      await recordActivity(newTask, 'created', diffTask(undefined, newTask))
 
       // Send notification if task is assigned to someone
       if (taskData.assignee_id && taskData.assignee_id !== user.id) {
-        await blink.db.notifications.create({
+        await createNotification({
           user_id: taskData.assignee_id,
           type: 'task_assigned',
           title: 'New Task Assigned',
           message: `${user.email} assigned you a task: "${taskData.title}"`,
-          data: JSON.stringify({ task_id: newTask.id, assigner: user.email })
+          data: { task_id: newTask.id, assigner: user.email }
         })
 
         // Send email notification
@@ -126,14 +290,14 @@ export function TasksPage() {
                   ${taskData.description ? `<p style="margin: 0; color: #666;">${taskData.description}</p>` : ''}
                   <p style="margin: 8px 0 0 0; font-size: 14px;">
                     <strong>Priority:</strong> ${taskData.priority || 'medium'} | 
-                    <strong>Status:</strong> ${taskData.status || 'todo'}
+                    <strong>Status:</strong> ${status.name}
                     ${taskData.due_date ? ` | <strong>Due:</strong> ${taskData.due_date}` : ''}
                   </p>
                 </div>
-                <p><a href="https://fully-functional-web-app-starter-tyzcly4d.sites.blink.new" style="color: #2563eb;">View in TaskFlow</a></p>
+                <p><a href="${taskUrl(newTask.id)}" style="color: #2563eb;">View in TaskFlow</a></p>
               </div>
             `,
-            text: `${user.email} has assigned you a new task: "${taskData.title}". View it in TaskFlow.`
+            text: `${user.email} has assigned you a new task: "${taskData.title}". View it in TaskFlow: ${taskUrl(newTask.id)}`
           })
         }
       }
@@ -154,56 +318,177 @@ export function TasksPage() {
     }
   }
 
-  const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
-    try {
-      const user = await blink.auth.me()
-      const originalTask = tasks.find(t => t.id === taskId)
+  const scheduleNextOccurrence = async (task: Task) => {
+    const rule = parseRRule(task.recurrence)
+    if (!rule) return
+
+    const series = seriesKey(task)
+    const occurrence = (task.occurrence ?? 1) + 1
+    // Reopening and completing a task again must not schedule the same occurrence twice
+    if (tasks.some(t => seriesKey(t) === series && (t.occurrence ?? 1) >= occurrence)) return
+
+    const dueDate = nextOccurrence(rule, task.due_date ? parseISO(task.due_date) : new Date())
+    if (!isWithinSeries(rule, dueDate, occurrence)) return
+    // The next occurrence starts as long before its due date as this one did
+    const leadDays = task.start_date && task.due_date
+      ? differenceInCalendarDays(parseISO(task.due_date), parseISO(task.start_date))
+      : undefined
+
+    const nextTask = await createTask(task.user_id, {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      project_id: task.project_id,
+      parent_id: task.parent_id,
+      assignee_id: task.assignee_id,
+      assignee_email: task.assignee_email,
+      auto_complete: task.auto_complete,
+      label_ids: task.label_ids,
+      ...statusFields(firstOfCategory(taskWorkflow(task, projects), 'not_started')),
+      recurrence: task.recurrence,
+      series_id: series,
+      occurrence,
+      start_date: leadDays === undefined ? undefined : format(subDays(dueDate, leadDays), 'yyyy-MM-dd'),
+      due_date: format(dueDate, 'yyyy-MM-dd'),
+    })
+    setTasks(prev => [nextTask, ...prev])
+    await recordActivity(nextTask, 'created', diffTask(undefined, nextTask))
+
+    toast({
+      title: "Next occurrence scheduled",
+      description: `"${task.title}" is due again on ${format(dueDate, 'MMM d, yyyy')}`,
+    })
+  }
+
+  // Saves an update with its side effects (notifications, recurrence, parent roll-up); throws on failure.
+  // Returns the parent when the update completed it
+  const applyTaskUpdate = async (taskId: string, input: TaskInput): Promise<Task | undefined> => {
+    const user = await blink.auth.me()
+    const originalTask = latestTasks.current.find(t => t.id === taskId)
+    const updates = originalTask ? fitStatus(originalTask, input) : input
+    
+    await updateTask(taskId, updates)
+    
+    if (originalTask) {
+      await logTaskActivity(user, { ...originalTask, ...updates }, 'updated', diffTask(originalTask, updates))
+    }
+    
+    latestTasks.current = latestTasks.current.map(task =>
+      task.id === taskId ? { ...task, ...updates } : task
+    )
+    setTasks(prev => prev.map(task => 
+      task.id === taskId ? { ...task, ...updates } : task
+    ))
+
+    // Check if task was completed and notify the creator
+    if (updates.status_category === 'done' && originalTask?.status_category !== 'done' && 
+        originalTask?.user_id && originalTask.user_id !== user.id) {
       
-      await blink.db.tasks.update(taskId, {
-        ...updates,
-        updated_at: new Date().toISOString()
+      await createNotification({
+        user_id: originalTask.user_id,
+        type: 'task_completed',
+        title: 'Task Completed',
+        message: `${user.email} completed the task: "${originalTask.title}"`,
+        data: { task_id: taskId, completer: user.email }
       })
-      
-      setTasks(prev => prev.map(task => 
-        task.id === taskId ? { ...task, ...updates } : task
-      ))
-
-      // Check if task was completed and notify the creator
-      if (updates.status === 'done' && originalTask?.status !== 'done' && 
-          originalTask?.user_id && originalTask.user_id !== user.id) {
-        
-        await blink.db.notifications.create({
-          user_id: originalTask.user_id,
-          type: 'task_completed',
-          title: 'Task Completed',
-          message: `${user.email} completed the task: "${originalTask.title}"`,
-          data: JSON.stringify({ task_id: taskId, completer: user.email })
-        })
 
-        // Send email notification to task creator
-        const creator = await blink.auth.me() // This would need to be the creator's info
-        await blink.notifications.email({
-          to: originalTask.user_id, // This should be creator's email
-          subject: `Task Completed: ${originalTask.title}`,
-          html: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <h2 style="color: #22c55e;">Task Completed! ✅</h2>
-              <p><strong>${user.email}</strong> has completed the task:</p>
-              <div style="background: #f0fdf4; padding: 16px; border-radius: 8px; margin: 16px 0; border-left: 4px solid #22c55e;">
-                <h3 style="margin: 0 0 8px 0;">${originalTask.title}</h3>
-                ${originalTask.description ? `<p style="margin: 0; color: #666;">${originalTask.description}</p>` : ''}
-              </div>
-              <p><a href="https://fully-functional-web-app-starter-tyzcly4d.sites.blink.new" style="color: #2563eb;">View in TaskFlow</a></p>
+      // Send email notification to task creator
+      const creator = await blink.auth.me() // This would need to be the creator's info
+      await blink.notifications.email({
+        to: originalTask.user_id, // This should be creator's email
+        subject: `Task Completed: ${originalTask.title}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #22c55e;">Task Completed! ✅</h2>
+            <p><strong>${user.email}</strong> has completed the task:</p>
+            <div style="background: #f0fdf4; padding: 16px; border-radius: 8px; margin: 16px 0; border-left: 4px solid #22c55e;">
+              <h3 style="margin: 0 0 8px 0;">${originalTask.title}</h3>
+              ${originalTask.description ? `<p style="margin: 0; color: #666;">${originalTask.description}</p>` : ''}
             </div>
-          `,
-          text: `${user.email} has completed the task: "${originalTask.title}". View it in TaskFlow.`
+            <p><a href="${taskUrl(taskId)}" style="color: #2563eb;">View in TaskFlow</a></p>
+          </div>
+        `,
+        text: `${user.email} has completed the task: "${originalTask.title}". View it in TaskFlow: ${taskUrl(taskId)}`
+      })
+    }
+
+    if (updates.status_category === 'done' && originalTask?.status_category !== 'done' && originalTask?.recurrence) {
+      await scheduleNextOccurrence({ ...originalTask, ...updates })
+    }
+
+    // Tell assignees when the last task holding theirs up is done
+    if (updates.status_category === 'done' && originalTask?.status_category !== 'done') {
+      const unblocked = getBlockedTasks(taskId, latestTasks.current).filter(task =>
+        task.status_category !== 'done' &&
+        task.assignee_id && task.assignee_id !== user.id &&
+        getOpenBlockers(task, latestTasks.current).length === 0
+      )
+      for (const task of unblocked) {
+        await createNotification({
+          user_id: task.assignee_id!,
+          type: 'task_unblocked',
+          title: 'Task Unblocked',
+          message: `"${task.title}" is ready to start: ${user.email} completed "${originalTask?.title}"`,
+          data: { task_id: task.id, blocker_id: taskId }
         })
       }
-      
-      toast({
+    }
+
+    // Roll completion up to a parent that opted into auto-complete
+    if (updates.status_category === 'done' && originalTask?.parent_id) {
+      const parent = latestTasks.current.find(t => t.id === originalTask.parent_id)
+      const siblings = getSubtasks(originalTask.parent_id, latestTasks.current)
+      if (parent?.auto_complete && parent.status_category !== 'done' &&
+          siblings.every(t => t.status_category === 'done')) {
+        await applyTaskUpdate(parent.id, statusFields(firstOfCategory(taskWorkflow(parent, projects), 'done')))
+        return parent
+      }
+    }
+  }
+
+  // Starting a task that still waits on others is allowed, but called out
+  const blockedWarning = (task: Task | undefined, updates: TaskInput) => {
+    if (!task || updates.status_category !== 'active' || task.status_category === 'active') return
+    const blockers = getOpenBlockers(task, tasks)
+    if (blockers.length === 0) return
+    const titles = blockers.slice(0, 2).map(blocker => `"${blocker.title}"`).join(', ')
+    const more = blockers.length > 2 ? ` and ${blockers.length - 2} more` : ''
+    return {
+      title: "Task is blocked",
+      description: `"${task.title}" is still waiting on ${titles}${more}.`,
+    }
+  }
+
+  const parentCompletedToast = (parent: Task) => ({
+    title: "Success",
+    description: `All subtasks are done, so "${parent.title}" was completed too.`,
+  })
+
+  const handleUpdateTask = async (taskId: string, updates: TaskInput) => {
+    const warning = blockedWarning(tasks.find(t => t.id === taskId), updates)
+    try {
+      const completedParent = await applyTaskUpdate(taskId, updates)
+      toast(warning ?? (completedParent ? parentCompletedToast(completedParent) : {
         title: "Success",
         description: "Task updated successfully!",
+      }))
+    } catch (error) {
+      console.error('Failed to update task:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update task. Please try again.",
+        variant: "destructive",
       })
+    }
+  }
+
+  // Inline subtask edits show on the spot, so only a warning or a completed parent is worth a toast
+  const handleUpdateSubtask = async (taskId: string, updates: TaskInput) => {
+    const warning = blockedWarning(tasks.find(t => t.id === taskId), updates)
+    try {
+      const completedParent = await applyTaskUpdate(taskId, updates)
+      if (completedParent) toast(parentCompletedToast(completedParent))
+      else if (warning) toast(warning)
     } catch (error) {
       console.error('Failed to update task:', error)
       toast({
@@ -214,64 +499,564 @@ export function TasksPage() {
     }
   }
 
+  // Subtasks follow their parent so a task tree never spans several projects
+  // `moved` carries the ids already moved across the steps of a bulk move, so none is moved twice
+  const moveToProject = async (taskIds: string[], targetProjectId: string | undefined, moved = new Set<string>()) => {
+    const movedIds = new Set(taskIds)
+    for (const id of taskIds) {
+      getDescendants(id, latestTasks.current).forEach(task => movedIds.add(task.id))
+    }
+    const applied = new Map<string, TaskInput>()
+    for (const id of movedIds) {
+      if (moved.has(id)) continue
+      const task = latestTasks.current.find(t => t.id === id)
+      const updates = task ? fitStatus(task, { project_id: targetProjectId }) : { project_id: targetProjectId }
+      await updateTask(id, updates)
+      moved.add(id)
+      if (task) {
+        await recordActivity({ ...task, ...updates }, 'updated', diffTask(task, updates))
+      }
+      latestTasks.current = latestTasks.current.map(t => t.id === id ? { ...t, ...updates } : t)
+      applied.set(id, updates)
+    }
+    setTasks(prev => prev.map(task =>
+      applied.has(task.id) ? { ...task, ...applied.get(task.id) } : task
+    ))
+    return applied.size
+  }
+
+  // Editing "this and future" copies the shared fields onto the open, later occurrences
+  const handleSaveTask = async (task: Task, data: TaskInput, scope: EditScope) => {
+    const warning = blockedWarning(task, data)
+    try {
+      const completedParent = await applyTaskUpdate(task.id, data)
+      if (warning) toast(warning)
+      else if (completedParent) toast(parentCompletedToast(completedParent))
+    } catch (error) {
+      console.error('Failed to update task:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update task. Please try again.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const subtaskIds = getDescendants(task.id, tasks).map(t => t.id)
+    if ('project_id' in data && data.project_id !== task.project_id && subtaskIds.length > 0) {
+      try {
+        await moveToProject(subtaskIds, data.project_id)
+      } catch (error) {
+        console.error('Failed to move subtasks:', error)
+      }
+    }
+
+    if (scope !== 'future') return
+
+    // Status, dates and dependencies belong to a single occurrence
+    const {
+      status: _status,
+      status_category: _category,
+      start_date: _startDate,
+      due_date: _dueDate,
+      blocked_by: _blockedBy,
+      ...seriesFields
+    } = data
+    if (Object.keys(seriesFields).length === 0) return
+    const upcoming = tasks.filter(t =>
+      t.id !== task.id &&
+      seriesKey(t) === seriesKey(task) &&
+      (t.occurrence ?? 1) > (task.occurrence ?? 1) &&
+      t.status_category !== 'done'
+    )
+
+    try {
+      const applied = new Map<string, TaskInput>()
+      for (const t of upcoming) {
+        const updates = fitStatus(t, seriesFields)
+        await updateTask(t.id, updates)
+        await recordActivity({ ...t, ...updates }, 'updated', diffTask(t, updates))
+        applied.set(t.id, updates)
+      }
+      setTasks(prev => prev.map(t => applied.has(t.id) ? { ...t, ...applied.get(t.id) } : t))
+    } catch (error) {
+      console.error('Failed to update future occurrences:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update future occurrences. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Subtasks go to the trash with their parent. Each trashed id is added to `trashed`
+  // as it goes, so a failure partway still leaves the ones before it to undo
+  const removeTask = async (rootId: string, trashed: Set<string>, deletedAt = new Date().toISOString()) => {
+    const ids = [rootId, ...getDescendants(rootId, tasks).map(task => task.id)]
+    try {
+      for (const id of ids) {
+        if (trashed.has(id)) continue
+        await trashTask(id, deletedAt)
+        trashed.add(id)
+        trashedIds.current.add(id)
+        const task = tasks.find(t => t.id === id)
+        if (task) await recordActivity(task, 'deleted')
+      }
+    } finally {
+      setTasks(prev => prev.filter(task => !trashed.has(task.id)))
+    }
+  }
+
+  const undoDelete = async (taskIds: string[]) => {
+    try {
+      for (const id of taskIds) {
+        await restoreTask(id)
+        trashedIds.current.delete(id)
+        const task = tasks.find(t => t.id === id)
+        if (task) await recordActivity(task, 'restored')
+      }
+      await loadTasks()
+    } catch (error) {
+      console.error('Failed to restore tasks:', error)
+      toast({
+        title: "Error",
+        description: "Failed to restore tasks. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const undoAction = (taskIds: string[]) => (
+    <ToastAction altText="Undo delete" onClick={() => undoDelete(taskIds)}>
+      Undo
+    </ToastAction>
+  )
+
   const handleDeleteTask = async (taskId: string) => {
+    const deletedIds = new Set<string>()
     try {
-      await blink.db.tasks.delete(taskId)
-      setTasks(prev => prev.filter(task => task.id !== taskId))
+      await removeTask(taskId, deletedIds)
       toast({
         title: "Success",
-        description: "Task deleted successfully!",
+        description: "Task moved to the trash.",
+        action: undoAction([...deletedIds]),
       })
     } catch (error) {
       console.error('Failed to delete task:', error)
       toast({
         title: "Error",
-        description: "Failed to delete task. Please try again.",
+        description: deletedIds.size > 0
+          ? `Only ${countTasks(deletedIds.size)} could be moved to the trash. Please try again.`
+          : "Failed to delete task. Please try again.",
         variant: "destructive",
+        action: deletedIds.size > 0 ? undoAction([...deletedIds]) : undefined,
       })
     }
   }
 
-  const handleStatusChange = async (taskId: string, newStatus: Task['status']) => {
-    await handleUpdateTask(taskId, { status: newStatus })
+  // Moving a task rewrites only its own rank, apart from a one-off ranking of unranked tasks above it
+  const handleReorder = async (ordered: Task[], from: number, to: number) => {
+    const updates = reorderRanks(ordered, from, to)
+    const ranks = new Map(updates.map(update => [update.id, update.rank]))
+    setTasks(prev => prev.map(task => ranks.has(task.id) ? { ...task, rank: ranks.get(task.id) } : task))
+
+    try {
+      for (const { id, rank } of updates) {
+        await updateTask(id, { rank })
+      }
+    } catch (error) {
+      console.error('Failed to reorder tasks:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save the new order. Please try again.",
+        variant: "destructive",
+      })
+      loadTasks()
+    }
   }
 
-  const filteredTasks = tasks.filter(task => {
-    const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         task.description?.toLowerCase().includes(searchQuery.toLowerCase())
-    const matchesStatus = statusFilter === 'all' || task.status === statusFilter
-    const matchesPriority = priorityFilter === 'all' || task.priority === priorityFilter
-    
-    return matchesSearch && matchesStatus && matchesPriority
-  })
+  /**
+   * Runs `action` on each selected task in turn. Failures do not stop the
+   * batch; they are listed in a single summary toast and stay selected so the
+   * action can be retried.
+   */
+  const runBulkAction = async (
+    action: (task: Task) => Promise<unknown>,
+    summary: (count: number) => string,
+    undo?: () => ToastActionElement | undefined
+  ) => {
+    const selected = tasks.filter(task => selectedTaskIds.has(task.id))
+    const failed: Task[] = []
+    for (const task of selected) {
+      try {
+        await action(task)
+      } catch (error) {
+        console.error(`Bulk action failed for task ${task.id}:`, error)
+        failed.push(task)
+      }
+    }
+    setSelectedTaskIds(new Set(failed.map(task => task.id)))
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'high': return 'bg-red-100 text-red-800 border-red-200'
-      case 'medium': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
-      case 'low': return 'bg-green-100 text-green-800 border-green-200'
-      default: return 'bg-gray-100 text-gray-800 border-gray-200'
+    if (failed.length === 0) {
+      toast({
+        title: "Success",
+        description: summary(selected.length),
+        action: undo?.(),
+      })
+      return
     }
+    const titles = failed.slice(0, 3).map(task => `"${task.title}"`).join(', ')
+    const more = failed.length > 3 ? ` and ${failed.length - 3} more` : ''
+    toast({
+      title: failed.length === selected.length ? "Error" : summary(selected.length - failed.length),
+      description: `${countTasks(failed.length)} could not be changed: ${titles}${more}. Please try again.`,
+      variant: "destructive",
+      action: undo?.(),
+    })
+  }
+
+  const handleBulkUpdate = (
+    updates: TaskInput | ((task: Task) => TaskInput),
+    summary: (count: number) => string
+  ) => {
+    const updatesFor = (task: Task) => typeof updates === 'function' ? updates(task) : updates
+    const blocked = tasks.filter(task => selectedTaskIds.has(task.id) && blockedWarning(task, updatesFor(task))).length
+    return runBulkAction(
+      task => applyTaskUpdate(task.id, updatesFor(task)),
+      count => blocked > 0 ? `${summary(count)} (${blocked} still blocked)` : summary(count)
+    )
+  }
+
+  const handleBulkMove = (targetProjectId: string | undefined) => {
+    const target = projects.find(p => p.id === targetProjectId)
+    // Selected subtasks of a selected parent have already moved with it by the time their turn comes
+    const moved = new Set<string>()
+    return runBulkAction(
+      task => moveToProject([task.id], targetProjectId, moved),
+      count => `Moved ${countTasks(count)} to ${target ? target.name : 'No project'}`
+    )
+  }
+
+  const handleBulkDelete = () => {
+    // Selected subtasks of a selected parent are already gone by the time their turn comes
+    const deletedIds = new Set<string>()
+    const deletedAt = new Date().toISOString()
+    return runBulkAction(
+      async (task) => {
+        if (!deletedIds.has(task.id)) await removeTask(task.id, deletedIds, deletedAt)
+      },
+      count => `Moved ${countTasks(count)} to the trash`,
+      () => deletedIds.size > 0 ? undoAction([...deletedIds]) : undefined
+    )
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'done': return 'bg-green-100 text-green-800 border-green-200'
-      case 'in_progress': return 'bg-blue-100 text-blue-800 border-blue-200'
-      case 'todo': return 'bg-gray-100 text-gray-800 border-gray-200'
-      default: return 'bg-gray-100 text-gray-800 border-gray-200'
+  // Tasks in a status the new workflow drops are moved into it as well
+  const handleWorkflowChange = async (statuses: WorkflowStatus[]) => {
+    if (!project) return
+    try {
+      await updateProject(project.id, { statuses })
+      const updated = { ...project, statuses }
+      const applied = new Map<string, TaskInput>()
+      for (const task of tasks.filter(t => t.project_id === project.id)) {
+        const status = placeStatus(statuses, task)
+        if (status.id === task.status && status.category === task.status_category) continue
+        const updates = statusFields(status)
+        await updateTask(task.id, updates)
+        await recordActivity({ ...task, ...updates }, 'updated', diffTask(task, updates))
+        applied.set(task.id, updates)
+      }
+      setProject(updated)
+      setProjects(prev => prev.map(p => p.id === updated.id ? updated : p))
+      setTasks(prev => prev.map(task => applied.has(task.id) ? { ...task, ...applied.get(task.id) } : task))
+      toast({
+        title: "Success",
+        description: applied.size > 0
+          ? `Workflow saved. ${countTasks(applied.size)} moved to a new status.`
+          : "Workflow saved.",
+      })
+    } catch (error) {
+      console.error('Failed to update workflow:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update workflow. Please try again.",
+        variant: "destructive",
+      })
+      throw error
     }
   }
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'done': return <CheckSquare className="w-4 h-4" />
-      case 'in_progress': return <Clock className="w-4 h-4" />
-      case 'todo': return <AlertCircle className="w-4 h-4" />
-      default: return <AlertCircle className="w-4 h-4" />
+  const handleStatusChange = async (taskId: string, newStatus: WorkflowStatus) => {
+    await handleUpdateTask(taskId, statusFields(newStatus))
+  }
+
+  useRegisterCommands([
+    {
+      id: 'action:new-task',
+      label: 'New task',
+      group: 'Actions',
+      icon: Plus,
+      keywords: ['create', 'add'],
+      run: () => openNewTask(),
+    },
+    ...(editingTask && editingTask.status_category !== 'done' ? [{
+      id: 'action:complete-task',
+      label: `Mark "${editingTask.title}" done`,
+      group: 'Actions',
+      icon: CircleCheck,
+      keywords: ['complete', 'finish', 'selected task'],
+      run: () => handleStatusChange(editingTask.id, firstOfCategory(taskWorkflow(editingTask, projects), 'done')),
+    }] : []),
+  ])
+
+  const handleChecklistChange = (taskId: string, items: ChecklistItem[]) => {
+    setChecklistItems(prev => [...prev.filter(item => item.task_id !== taskId), ...items])
+  }
+
+  const getProgress = (taskId: string) => {
+    const subtasks = getSubtasks(taskId, tasks)
+    const checklist = checklistItems.filter(item => item.task_id === taskId)
+    const subtasksDone = subtasks.filter(task => task.status_category === 'done').length
+    const checklistDone = checklist.filter(item => item.done).length
+    const total = subtasks.length + checklist.length
+    return {
+      subtasks,
+      checklist,
+      subtasksDone,
+      checklistDone,
+      percent: total === 0 ? 0 : Math.round(((subtasksDone + checklistDone) / total) * 100),
     }
   }
 
+  const renderProgress = (taskId: string) => {
+    const { subtasks, checklist, subtasksDone, checklistDone, percent } = getProgress(taskId)
+    if (subtasks.length === 0 && checklist.length === 0) return null
+
+    return (
+      <div className="flex items-center space-x-3 mb-3">
+        <Progress value={percent} className="h-2 max-w-xs" />
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {[
+            subtasks.length > 0 && `${subtasksDone}/${subtasks.length} subtasks`,
+            checklist.length > 0 && `${checklistDone}/${checklist.length} checklist`,
+          ].filter(Boolean).join(' · ')}
+        </span>
+      </div>
+    )
+  }
+
+  // Subtasks are listed under their parent, unless the parent is not visible to this user
+  const visibleTaskIds = new Set(tasks.map(task => task.id))
+
+  const workflowStatusIds = [...new Set(projects.flatMap(p => p.statuses.map(s => s.id)))]
+  const parsedQuery = parseTaskQuery(view.query, {
+    projectNames: projects.map(p => p.name),
+    labelNames: labels.map(l => l.name),
+    statusIds: workflowStatusIds,
+  })
+  const queryContext = { userId: blink.auth.currentUser()?.id, projects, labels }
+
+  // A project page is already scoped, so a project picked on the full list does not apply
+  const activeFilters = projectId ? { ...view.filters, project: 'all' } : view.filters
+
+  const filteredTasks = sortTasks(tasks, view.sort).filter(task => {
+    if (task.parent_id && visibleTaskIds.has(task.parent_id)) return false
+    if (projectId && task.project_id !== projectId) return false
+
+    const matchesSearch = matchesTaskQuery(task, parsedQuery.clauses, queryContext)
+    // The overdue toggle lives in the project header, so it only applies on project pages
+    const matchesOverdue = !projectId || !overdueOnly || isOverdue(task)
+    
+    return matchesSearch && matchesTaskFilters(task, activeFilters) && matchesOverdue
+  })
+
+  const hasActiveFilters = !!view.query || hasTaskFilters(activeFilters) || (!!projectId && overdueOnly)
+
+  const projectsById = new Map(projects.map(p => [p.id, p]))
+
+  // A project page shows its own workflow; the full list falls back to the default statuses
+  const boardStatuses = projectWorkflow(projectId ? project : null)
+
+  const groups = groupTasks(filteredTasks, view.groupBy, { projects, statuses: boardStatuses })
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(collapsedGroups.includes(key)
+      ? collapsedGroups.filter(k => k !== key)
+      : [...collapsedGroups, key])
+  }
+
+  // Tasks in the order they appear on screen, for shift-click ranges
+  const visibleTasks = view.groupBy === 'none'
+    ? filteredTasks
+    : groups.flatMap(group => collapsedGroups.includes(`${view.groupBy}:${group.key}`) ? [] : group.tasks)
+
+  const handleSelectClick = (taskId: string, range: boolean) => {
+    const selected = !selectedTaskIds.has(taskId)
+    const from = visibleTasks.findIndex(task => task.id === selectionAnchor)
+    const to = visibleTasks.findIndex(task => task.id === taskId)
+    const ids = range && from >= 0
+      ? visibleTasks.slice(Math.min(from, to), Math.max(from, to) + 1).map(task => task.id)
+      : [taskId]
+
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev)
+      for (const id of ids) {
+        if (selected) next.add(id)
+        else next.delete(id)
+      }
+      return next
+    })
+    setSelectionAnchor(taskId)
+  }
+
+  const selectedMatching = filteredTasks.filter(task => selectedTaskIds.has(task.id)).length
+
+  const renderTaskCard = (task: Task, dragHandle?: ReactNode) => (
+    <Card
+      key={task.id}
+      data-task-id={task.id}
+      className={cn('hover:shadow-md transition-shadow', task.id === taskId && 'ring-2 ring-primary')}
+    >
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between">
+          {dragHandle}
+          <Checkbox
+            checked={selectedTaskIds.has(task.id)}
+            onClick={(e) => handleSelectClick(task.id, e.shiftKey)}
+            className="mt-1 mr-4"
+            aria-label={`Select ${task.title}`}
+          />
+          <div className="flex-1">
+            <div className="flex items-center space-x-3 mb-2">
+              {task.project_id && projectsById.has(task.project_id) && (
+                <span
+                  className="w-2.5 h-2.5 rounded-full shrink-0"
+                  style={{ backgroundColor: projectsById.get(task.project_id)?.color }}
+                  title={projectsById.get(task.project_id)?.name}
+                />
+              )}
+              <Link to={taskDetailPath(task.id) + location.search} className="font-semibold text-foreground hover:underline">
+                {task.title}
+              </Link>
+              <Badge className={getPriorityColor(task.priority)}>
+                {task.priority}
+              </Badge>
+              <Badge className={getStatusColor(task.status_category)}>
+                <span className="flex items-center space-x-1">
+                  {getStatusIcon(task.status_category)}
+                  <span>{statusLabel(task, projects)}</span>
+                </span>
+              </Badge>
+              <BlockedBadge blockers={getOpenBlockers(task, tasks)} />
+            </div>
+                          
+            {task.description && (
+              <p className="text-muted-foreground mb-3">{task.description}</p>
+            )}
+
+            <LabelChips labelIds={task.label_ids} className="mb-3" />
+
+            {renderProgress(task.id)}
+                          
+            <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+              <span>Created {format(new Date(task.created_at), 'MMM d, yyyy')}</span>
+              {!projectId && task.project_id && projectsById.has(task.project_id) && (
+                <Link
+                  to={projectPath(task.project_id)}
+                  className="flex items-center hover:text-foreground"
+                >
+                  <FolderOpen className="w-3 h-3 mr-1" />
+                  {projectsById.get(task.project_id)?.name}
+                </Link>
+              )}
+              {task.due_date && (
+                <span className="flex items-center">
+                  <Calendar className="w-3 h-3 mr-1" />
+                  Due {format(new Date(task.due_date), 'MMM d, yyyy')}
+                </span>
+              )}
+              {describeRecurrence(task.recurrence) && (
+                <span className="flex items-center">
+                  <Repeat className="w-3 h-3 mr-1" />
+                  {describeRecurrence(task.recurrence)}
+                </span>
+              )}
+              {task.assignee_email && (
+                <span className="flex items-center">
+                  <Avatar className="w-4 h-4 mr-1">
+                    <AvatarFallback className="text-xs">
+                      {task.assignee_email.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span>Assigned to {task.assignee_email.split('@')[0]}</span>
+                </span>
+              )}
+            </div>
+          </div>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                <MoreHorizontal className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => navigate(taskDetailPath(task.id) + location.search)}>
+                Edit
+              </DropdownMenuItem>
+              {taskWorkflow(task, projects).map((status) => (
+                <DropdownMenuItem key={status.id} onClick={() => handleStatusChange(task.id, status)}>
+                  Mark as {status.name}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem 
+                onClick={() => handleDeleteTask(task.id)}
+                className="text-destructive"
+              >
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  // Up and down move through the tasks in the order they are shown while a task is open
+  const navigableTasks = layout === 'board'
+    ? boardStatuses.flatMap(status => filteredTasks.filter(task => placeStatus(boardStatuses, task).id === status.id))
+    : layout === 'calendar' || layout === 'timeline'
+      ? sortTasks(filteredTasks, 'due')
+      : layout === 'table' ? filteredTasks : visibleTasks
+  const editingIndex = editingTask ? navigableTasks.findIndex(task => task.id === editingTask.id) : -1
+  const previousTask = editingIndex > 0 ? navigableTasks[editingIndex - 1] : undefined
+  const nextTask = editingIndex >= 0 ? navigableTasks[editingIndex + 1] : undefined
+  const previousPath = previousTask && taskDetailPath(previousTask.id) + location.search
+  const nextPath = nextTask && taskDetailPath(nextTask.id) + location.search
+
+  useEffect(() => {
+    if (!previousPath && !nextPath) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return
+      // Arrow keys keep their meaning in fields and menus
+      const target = e.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="listbox"], [role="menu"]')) return
+
+      const path = e.key === 'ArrowUp' ? previousPath : e.key === 'ArrowDown' ? nextPath : undefined
+      if (!path) return
+      e.preventDefault()
+      navigate(path, { replace: true })
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [previousPath, nextPath, navigate])
+
+  // Keep the open task in view as the keyboard moves through the list
+  useEffect(() => {
+    if (loading || !taskId) return
+    document.querySelector(`[data-task-id="${CSS.escape(taskId)}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [loading, taskId])
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -293,191 +1078,327 @@ export function TasksPage() {
     )
   }
 
+  // The calendar and timeline are shown even when empty; clicking a calendar day creates a task
+  const taskList = layout === 'timeline' ? (
+    <TaskTimeline tasks={filteredTasks} onReschedule={handleUpdateTask} getTaskPath={taskDetailPath} />
+  ) : layout === 'calendar' ? (
+    <TaskCalendar
+      tasks={filteredTasks}
+      projects={projects}
+      onReschedule={handleUpdateTask}
+      onCreate={openNewTask}
+      getTaskPath={taskDetailPath}
+    />
+  ) : layout === 'table' && filteredTasks.length > 0 ? (
+    <TaskTable
+      tasks={filteredTasks}
+      projects={projects}
+      teamMembers={teamMembers}
+      onUpdate={(task, updates) => handleSaveTask(task, updates, 'this')}
+      getTaskPath={taskDetailPath}
+    />
+  ) : layout === 'board' && filteredTasks.length > 0 ? (
+    <TaskBoard
+      tasks={filteredTasks}
+      statuses={boardStatuses}
+      onStatusChange={handleStatusChange}
+      getTaskPath={taskDetailPath}
+      getBlockers={(task) => getOpenBlockers(task, tasks)}
+    />
+  ) : (
+    <div className="grid gap-4">
+      {filteredTasks.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <CheckSquare className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">
+              {hasActiveFilters
+                ? 'No tasks match your filters' 
+                : 'No tasks yet'
+              }
+            </h3>
+            <p className="text-muted-foreground mb-4">
+              {hasActiveFilters
+                ? 'Try adjusting your search or filters'
+                : 'Create your first task to get started!'
+              }
+            </p>
+            {!hasActiveFilters && (
+              <Button onClick={() => openNewTask()}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create Task
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => {
+          const list = (
+            <SortableTaskList
+              tasks={group.tasks}
+              enabled={view.sort === 'manual'}
+              onReorder={handleReorder}
+              renderTask={renderTaskCard}
+            />
+          )
+          if (view.groupBy === 'none') return <div key={group.key}>{list}</div>
+
+          const collapseKey = `${view.groupBy}:${group.key}`
+          const collapsed = collapsedGroups.includes(collapseKey)
+          return (
+            <div key={group.key} className="space-y-4">
+              <button
+                type="button"
+                onClick={() => toggleGroup(collapseKey)}
+                className="flex items-center space-x-2 text-sm font-semibold text-foreground"
+              >
+                {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                {group.color && (
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: group.color }} />
+                )}
+                <span>{group.label}</span>
+                <Badge variant="secondary">{group.tasks.length}</Badge>
+              </button>
+              {!collapsed && list}
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+
   return (
     <div className="space-y-6">
       {/* Header */}
+      {project && (
+        <ProjectHeader
+          project={project}
+          tasks={tasks.filter(task => task.project_id === project.id)}
+          projects={projects}
+          overdueOnly={overdueOnly}
+          onOverdueOnlyChange={setOverdueOnly}
+          onWorkflowChange={handleWorkflowChange}
+        />
+      )}
       <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-3xl font-bold text-foreground">Tasks</h1>
-          <p className="text-muted-foreground mt-1">Manage and track your tasks</p>
+        {project ? (
+          <h2 className="text-xl font-semibold text-foreground">Tasks</h2>
+        ) : (
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Tasks</h1>
+            <p className="text-muted-foreground mt-1">Manage and track your tasks</p>
+          </div>
+        )}
+        <div className="flex items-center space-x-2">
+          <ViewsMenu
+            currentQuery={writeViewParams(
+              // From a project page the saved view keeps the project as a filter
+              projectId ? { ...view, filters: { ...view.filters, project: projectId } } : view
+            ).toString()}
+            onApply={(query) => navigate(viewPath(query))}
+          />
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            <Button
+              variant={layout === 'list' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => setLayout('list')}
+              aria-label="List view"
+            >
+              <List className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={layout === 'board' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => setLayout('board')}
+              aria-label="Board view"
+            >
+              <Kanban className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={layout === 'table' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => setLayout('table')}
+              aria-label="Table view"
+            >
+              <Sheet className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={layout === 'calendar' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => setLayout('calendar')}
+              aria-label="Calendar view"
+            >
+              <CalendarDays className="w-4 h-4" />
+            </Button>
+            {projectId && (
+              <Button
+                variant={layout === 'timeline' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-8 px-2"
+                onClick={() => setLayout('timeline')}
+                aria-label="Timeline view"
+              >
+                <GanttChart className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <Button onClick={() => openNewTask()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Task
+          </Button>
         </div>
-        <Button onClick={() => setIsDialogOpen(true)}>
-          <Plus className="w-4 h-4 mr-2" />
-          New Task
-        </Button>
       </div>
 
       {/* Filters */}
       <Card>
         <CardContent className="p-4">
-          <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex flex-col sm:flex-row sm:items-start gap-4">
             {/* Search */}
             <div className="flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search tasks..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
+              <TaskQueryInput
+                value={view.query}
+                onChange={(query) => updateView({ query })}
+                errors={parsedQuery.errors}
+                suggestionContext={{
+                  projectNames: projects.map(p => p.name),
+                  labelNames: labels.map(l => l.name),
+                  statusIds: workflowStatusIds,
+                  assignees: [...new Set(tasks.flatMap(t => t.assignee_email ? [t.assignee_email.split('@')[0]] : []))],
+                }}
+              />
             </div>
 
-            {/* Status Filter */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" className="w-full sm:w-auto">
-                  <Filter className="w-4 h-4 mr-2" />
-                  Status: {statusFilter === 'all' ? 'All' : statusFilter.replace('_', ' ')}
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent>
-                <DropdownMenuItem onClick={() => setStatusFilter('all')}>All</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('todo')}>To Do</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('in_progress')}>In Progress</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('done')}>Done</DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <TaskFilterMenus
+              filters={view.filters}
+              onChange={(filters) => updateView({ filters })}
+              projects={projectId ? undefined : projects}
+              labels={labels}
+              statuses={projectId ? boardStatuses : undefined}
+            />
 
-            {/* Priority Filter */}
+            {/* Sort */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" className="w-full sm:w-auto">
-                  <Filter className="w-4 h-4 mr-2" />
-                  Priority: {priorityFilter === 'all' ? 'All' : priorityFilter}
+                  <ArrowUpDown className="w-4 h-4 mr-2" />
+                  Sort: {SORT_OPTIONS.find(option => option.value === view.sort)?.label}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent>
-                <DropdownMenuItem onClick={() => setPriorityFilter('all')}>All</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setPriorityFilter('high')}>High</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setPriorityFilter('medium')}>Medium</DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setPriorityFilter('low')}>Low</DropdownMenuItem>
+                {SORT_OPTIONS.map((option) => (
+                  <DropdownMenuItem key={option.value} onClick={() => updateView({ sort: option.value })}>
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
               </DropdownMenuContent>
             </DropdownMenu>
+
+            {/* Group (the board is already grouped by status) */}
+            {layout === 'list' && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="w-full sm:w-auto">
+                    <Layers className="w-4 h-4 mr-2" />
+                    Group: {GROUP_OPTIONS.find(option => option.value === view.groupBy)?.label}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  {GROUP_OPTIONS.map((option) => (
+                    <DropdownMenuItem key={option.value} onClick={() => updateView({ groupBy: option.value })}>
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Tasks List */}
-      <div className="grid gap-4">
-        {filteredTasks.length === 0 ? (
-          <Card>
-            <CardContent className="p-12 text-center">
-              <CheckSquare className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-foreground mb-2">
-                {searchQuery || statusFilter !== 'all' || priorityFilter !== 'all' 
-                  ? 'No tasks match your filters' 
-                  : 'No tasks yet'
-                }
-              </h3>
-              <p className="text-muted-foreground mb-4">
-                {searchQuery || statusFilter !== 'all' || priorityFilter !== 'all'
-                  ? 'Try adjusting your search or filters'
-                  : 'Create your first task to get started!'
-                }
-              </p>
-              {!searchQuery && statusFilter === 'all' && priorityFilter === 'all' && (
-                <Button onClick={() => setIsDialogOpen(true)}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Create Task
-                </Button>
-              )}
-            </CardContent>
-          </Card>
-        ) : (
-          filteredTasks.map((task) => (
-            <Card key={task.id} className="hover:shadow-md transition-shadow">
-              <CardContent className="p-6">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <h3 className="font-semibold text-foreground">{task.title}</h3>
-                      <Badge className={getPriorityColor(task.priority)}>
-                        {task.priority}
-                      </Badge>
-                      <Badge className={getStatusColor(task.status)}>
-                        <span className="flex items-center space-x-1">
-                          {getStatusIcon(task.status)}
-                          <span>{task.status.replace('_', ' ')}</span>
-                        </span>
-                      </Badge>
-                    </div>
-                    
-                    {task.description && (
-                      <p className="text-muted-foreground mb-3">{task.description}</p>
-                    )}
-                    
-                    <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-                      <span>Created {format(new Date(task.created_at), 'MMM d, yyyy')}</span>
-                      {task.due_date && (
-                        <span className="flex items-center">
-                          <Calendar className="w-3 h-3 mr-1" />
-                          Due {format(new Date(task.due_date), 'MMM d, yyyy')}
-                        </span>
-                      )}
-                      {task.assignee_email && (
-                        <span className="flex items-center">
-                          <Avatar className="w-4 h-4 mr-1">
-                            <AvatarFallback className="text-xs">
-                              {task.assignee_email.charAt(0).toUpperCase()}
-                            </AvatarFallback>
-                          </Avatar>
-                          <span>Assigned to {task.assignee_email.split('@')[0]}</span>
-                        </span>
-                      )}
-                    </div>
-                  </div>
-
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                        <MoreHorizontal className="w-4 h-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => {
-                        setEditingTask(task)
-                        setIsDialogOpen(true)
-                      }}>
-                        Edit
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleStatusChange(task.id, 'todo')}>
-                        Mark as To Do
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleStatusChange(task.id, 'in_progress')}>
-                        Mark as In Progress
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleStatusChange(task.id, 'done')}>
-                        Mark as Done
-                      </DropdownMenuItem>
-                      <DropdownMenuItem 
-                        onClick={() => handleDeleteTask(task.id)}
-                        className="text-destructive"
-                      >
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </div>
-              </CardContent>
-            </Card>
-          ))
-        )}
-      </div>
+      {/* Bulk Actions */}
+      {selectedTaskIds.size > 0 && (
+        <BulkActionBar
+          count={selectedTaskIds.size}
+          projects={projects}
+          statuses={boardStatuses}
+          teamMembers={teamMembers}
+          onUpdate={handleBulkUpdate}
+          onMove={handleBulkMove}
+          onDelete={handleBulkDelete}
+          onClear={() => setSelectedTaskIds(new Set())}
+        />
+      )}
+
+      {layout === 'list' && filteredTasks.length > 0 && (
+        <label className="flex items-center space-x-2 px-1 text-sm text-muted-foreground">
+          <Checkbox
+            checked={selectedMatching === filteredTasks.length ? true : selectedMatching > 0 ? 'indeterminate' : false}
+            onCheckedChange={(checked) => setSelectedTaskIds(prev => {
+              const next = new Set(prev)
+              for (const task of filteredTasks) {
+                if (checked === true) next.add(task.id)
+                else next.delete(task.id)
+              }
+              return next
+            })}
+          />
+          <span>
+            {hasActiveFilters
+              ? `Select all ${countTasks(filteredTasks.length)} matching the filters`
+              : `Select all ${countTasks(filteredTasks.length)}`}
+          </span>
+        </label>
+      )}
+
+      {editingTask ? (
+        <ResizablePanelGroup
+          direction="horizontal"
+          onLayout={([, panelSize]) => setDetailPanelSize(panelSize)}
+          className="h-[calc(100vh-8rem)]"
+        >
+          <ResizablePanel defaultSize={100 - detailPanelSize} minSize={30}>
+            <div className="h-full overflow-y-auto pr-4">{taskList}</div>
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={detailPanelSize} minSize={25}>
+            <div className="h-full pl-4">
+              <TaskDetailPanel
+                task={editingTask}
+                tasks={tasks}
+                projects={projects}
+                teamMembers={teamMembers}
+                onSave={(data, scope) => handleSaveTask(editingTask, data, scope)}
+                onClose={() => navigate(listPath)}
+                onPrevious={previousPath ? () => navigate(previousPath, { replace: true }) : undefined}
+                onNext={nextPath ? () => navigate(nextPath, { replace: true }) : undefined}
+                subtasks={getSubtasks(editingTask.id, tasks)}
+                onCreateSubtask={(data) => handleCreateTask({
+                  ...data,
+                  parent_id: editingTask.id,
+                  project_id: editingTask.project_id,
+                })}
+                onUpdateSubtask={handleUpdateSubtask}
+                onDeleteSubtask={handleDeleteTask}
+                checklistItems={checklistItems.filter(item => item.task_id === editingTask.id)}
+                onChecklistChange={(items) => handleChecklistChange(editingTask.id, items)}
+              />
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      ) : taskList}
 
       {/* Task Dialog */}
       <TaskDialog
         open={isDialogOpen}
-        onOpenChange={(open) => {
-          setIsDialogOpen(open)
-          if (!open) setEditingTask(null)
-        }}
-        task={editingTask}
-        onSave={editingTask ? 
-          (data) => handleUpdateTask(editingTask.id, data) : 
-          handleCreateTask
-        }
+        onOpenChange={setIsDialogOpen}
+        projects={projects}
+        defaultProjectId={projectId}
+        defaultDueDate={newTaskDueDate}
+        onSave={handleCreateTask}
       />
     </div>
   )
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { blink } from '../blink/client'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
@@ -10,22 +11,16 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Label } from './ui/label'
 import { Users, UserPlus, Check, X, Mail } from 'lucide-react'
 import { useToast } from '../hooks/use-toast'
-
-interface Connection {
-  id: string
-  requester_id: string
-  recipient_id: string
-  status: string
-  created_at: string
-  requester_email?: string
-  recipient_email?: string
-}
-
-interface TeamMember {
-  id: string
-  email: string
-  display_name?: string
-}
+import {
+  listConnections,
+  toTeamMembers,
+  findInvite,
+  createInvite,
+  respondToInvite,
+  createNotification,
+  type Connection,
+  type TeamMember,
+} from '../data'
 
 export function TeamPage() {
   const [connections, setConnections] = useState<Connection[]>([])
@@ -34,6 +29,8 @@ export function TeamPage() {
   const [inviteEmail, setInviteEmail] = useState('')
   const [loading, setLoading] = useState(true)
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false)
+  const location = useLocation()
+  const navigate = useNavigate()
   const { toast } = useToast()
 
   const loadTeamData = useCallback(async () => {
@@ -41,36 +38,10 @@ export function TeamPage() {
       const user = await blink.auth.me()
       
       // Load connections where user is requester or recipient
-      const allConnections = await blink.db.user_connections.list({
-        where: {
-          OR: [
-            { requester_id: user.id },
-            { recipient_id: user.id }
-          ]
-        },
-        orderBy: { created_at: 'desc' }
-      })
+      const allConnections = await listConnections(user.id)
 
       setConnections(allConnections)
-
-      // Filter accepted connections to get team members
-      const acceptedConnections = allConnections.filter(conn => conn.status === 'accepted')
-      const members: TeamMember[] = []
-      
-      for (const conn of acceptedConnections) {
-        const memberId = conn.requester_id === user.id ? conn.recipient_id : conn.requester_id
-        const memberEmail = conn.requester_id === user.id ? conn.recipient_email : conn.requester_email
-        
-        if (memberId && memberEmail) {
-          members.push({
-            id: memberId,
-            email: memberEmail,
-            display_name: memberEmail.split('@')[0]
-          })
-        }
-      }
-      
-      setTeamMembers(members)
+      setTeamMembers(toTeamMembers(user.id, allConnections))
 
       // Filter pending requests where current user is recipient
       const pending = allConnections.filter(conn => 
@@ -94,6 +65,14 @@ export function TeamPage() {
     loadTeamData()
   }, [loadTeamData])
 
+  // Opened from the command palette; clear the state so a reload does not reopen it
+  useEffect(() => {
+    if (location.state?.invite) {
+      setInviteDialogOpen(true)
+      navigate(location.pathname, { replace: true, state: null })
+    }
+  }, [location, navigate])
+
   const sendInvite = async () => {
     if (!inviteEmail.trim()) return
 
@@ -101,16 +80,9 @@ export function TeamPage() {
       const user = await blink.auth.me()
       
       // Check if connection already exists
-      const existingConnection = await blink.db.user_connections.list({
-        where: {
-          AND: [
-            { requester_id: user.id },
-            { recipient_email: inviteEmail }
-          ]
-        }
-      })
+      const existingConnection = await findInvite(user.id, inviteEmail)
 
-      if (existingConnection.length > 0) {
+      if (existingConnection) {
         toast({
           title: "Already Connected",
           description: "You've already sent an invite to this user",
@@ -120,12 +92,7 @@ export function TeamPage() {
       }
 
       // Create connection request
-      await blink.db.user_connections.create({
-        requester_id: user.id,
-        recipient_email: inviteEmail,
-        requester_email: user.email,
-        status: 'pending'
-      })
+      await createInvite(user, inviteEmail)
 
       // Send notification email
       await blink.notifications.email({
@@ -165,22 +132,18 @@ export function TeamPage() {
     try {
       const user = await blink.auth.me()
       
-      await blink.db.user_connections.update(connectionId, {
-        status: accept ? 'accepted' : 'rejected',
-        recipient_id: user.id,
-        updated_at: new Date().toISOString()
-      })
+      await respondToInvite(connectionId, user.id, accept)
 
       if (accept) {
         // Create notification for requester
         const connection = pendingRequests.find(req => req.id === connectionId)
         if (connection) {
-          await blink.db.notifications.create({
+          await createNotification({
             user_id: connection.requester_id,
             type: 'connection_accepted',
             title: 'Connection Accepted',
             message: `${user.email} accepted your team invitation`,
-            data: JSON.stringify({ connection_id: connectionId })
+            data: { connection_id: connectionId }
           })
         }
       }
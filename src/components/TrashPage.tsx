@@ -0,0 +1,323 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { differenceInCalendarDays, formatDistanceToNow, parseISO } from 'date-fns'
+import { blink } from '../blink/client'
+import { useToast } from '../hooks/use-toast'
+import { ProjectIcon } from './ProjectIcon'
+import { countTasks } from '../lib/task-display'
+import {
+  listTrash,
+  purgeDate,
+  purgeTask,
+  trashedTree,
+  restoreTask,
+  restoreProject,
+  deleteProject,
+  logTaskActivity,
+  TRASH_RETENTION_DAYS,
+  type Project,
+  type Task,
+} from '../data'
+
+type PendingPurge = { kind: 'task'; task: Task } | { kind: 'project'; project: Project } | { kind: 'all' }
+
+export function TrashPage() {
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null)
+  const { toast } = useToast()
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const user = await blink.auth.me()
+      const trash = await listTrash(user.id)
+      setTasks(trash.tasks)
+      setProjects(trash.projects)
+    } catch (error) {
+      console.error('Failed to load trash:', error)
+      toast({
+        title: "Error",
+        description: "Failed to load trash. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  // Tasks that went to the trash together with their project
+  const projectTasks = (project: Project) =>
+    tasks.filter(task => task.project_id === project.id && task.deleted_at === project.deleted_at)
+
+  // Subtasks and project tasks are listed with whatever they were deleted with
+  const bundledIds = new Set([
+    ...tasks.flatMap(task => trashedTree(task, tasks).slice(1)),
+    ...projects.flatMap(projectTasks),
+  ].map(task => task.id))
+  const looseTasks = tasks.filter(task => !bundledIds.has(task.id))
+
+  const dropFromList = (removed: Task[], project?: Project) => {
+    const removedIds = new Set(removed.map(task => task.id))
+    setTasks(prev => prev.filter(task => !removedIds.has(task.id)))
+    if (project) setProjects(prev => prev.filter(p => p.id !== project.id))
+  }
+
+  const handleRestoreTask = async (task: Task) => {
+    try {
+      const user = await blink.auth.me()
+      const tree = trashedTree(task, tasks)
+      for (const t of tree) {
+        await restoreTask(t.id)
+        await logTaskActivity(user, t, 'restored')
+      }
+      dropFromList(tree)
+      toast({
+        title: "Success",
+        description: `"${task.title}" was restored.`,
+      })
+    } catch (error) {
+      console.error('Failed to restore task:', error)
+      toast({
+        title: "Error",
+        description: "Failed to restore task. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRestoreProject = async (project: Project) => {
+    try {
+      const user = await blink.auth.me()
+      const projectTaskList = projectTasks(project)
+      await restoreProject(project.id)
+      for (const task of projectTaskList) {
+        await restoreTask(task.id)
+        await logTaskActivity(user, task, 'restored')
+      }
+      dropFromList(projectTaskList, project)
+      toast({
+        title: "Success",
+        description: `"${project.name}" was restored.`,
+      })
+    } catch (error) {
+      console.error('Failed to restore project:', error)
+      toast({
+        title: "Error",
+        description: "Failed to restore project. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handlePurge = async (pending: PendingPurge) => {
+    setPendingPurge(null)
+    try {
+      if (pending.kind === 'task') {
+        const tree = trashedTree(pending.task, tasks)
+        for (const t of tree) {
+          await purgeTask(t.id)
+        }
+        dropFromList(tree)
+      } else if (pending.kind === 'project') {
+        const projectTaskList = projectTasks(pending.project)
+        for (const task of projectTaskList) {
+          await purgeTask(task.id)
+        }
+        await deleteProject(pending.project.id)
+        dropFromList(projectTaskList, pending.project)
+      } else {
+        for (const task of tasks) {
+          await purgeTask(task.id)
+        }
+        for (const project of projects) {
+          await deleteProject(project.id)
+        }
+        setTasks([])
+        setProjects([])
+      }
+      toast({
+        title: "Success",
+        description: pending.kind === 'all' ? "Trash emptied." : "Deleted permanently.",
+      })
+    } catch (error) {
+      console.error('Failed to delete permanently:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete permanently. Please try again.",
+        variant: "destructive",
+      })
+      loadTrash()
+    }
+  }
+
+  const renderMeta = (deletedAt: string | undefined, contents: string | null) => {
+    if (!deletedAt) return null
+    const daysLeft = Math.max(0, differenceInCalendarDays(purgeDate(deletedAt), new Date()))
+    return (
+      <p className="text-xs text-muted-foreground">
+        {[
+          `Deleted ${formatDistanceToNow(parseISO(deletedAt), { addSuffix: true })}`,
+          contents,
+          `gone for good in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`,
+        ].filter(Boolean).join(' · ')}
+      </p>
+    )
+  }
+
+  const renderActions = (onRestore: () => void, onPurge: () => void) => (
+    <div className="flex items-center space-x-2">
+      <Button variant="outline" size="sm" onClick={onRestore}>
+        <RotateCcw className="w-4 h-4 mr-1" />
+        Restore
+      </Button>
+      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={onPurge}>
+        Delete forever
+      </Button>
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 bg-muted rounded w-32 animate-pulse"></div>
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-4 bg-muted rounded w-1/2 mb-2"></div>
+            <div className="h-3 bg-muted rounded w-3/4"></div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const isEmpty = looseTasks.length === 0 && projects.length === 0
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Trash</h1>
+          <p className="text-muted-foreground mt-1">
+            Deleted tasks and projects are kept for {TRASH_RETENTION_DAYS} days
+          </p>
+        </div>
+        {!isEmpty && (
+          <Button variant="outline" onClick={() => setPendingPurge({ kind: 'all' })}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Empty trash
+          </Button>
+        )}
+      </div>
+
+      {isEmpty ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Trash2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">Trash is empty</h3>
+            <p className="text-muted-foreground">Deleted tasks and projects show up here.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {projects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Projects</CardTitle>
+              </CardHeader>
+              <CardContent className="divide-y divide-border">
+                {projects.map((project) => {
+                  const taskCount = projectTasks(project).length
+                  return (
+                    <div key={project.id} className="flex items-center justify-between py-3">
+                      <div className="flex items-center space-x-3">
+                        <ProjectIcon project={project} />
+                        <div>
+                          <p className="font-medium text-foreground">{project.name}</p>
+                          {renderMeta(project.deleted_at, taskCount > 0 ? `with ${countTasks(taskCount)}` : null)}
+                        </div>
+                      </div>
+                      {renderActions(
+                        () => handleRestoreProject(project),
+                        () => setPendingPurge({ kind: 'project', project })
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {looseTasks.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Tasks</CardTitle>
+              </CardHeader>
+              <CardContent className="divide-y divide-border">
+                {looseTasks.map((task) => {
+                  const subtaskCount = trashedTree(task, tasks).length - 1
+                  return (
+                    <div key={task.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-foreground">{task.title}</p>
+                        {renderMeta(
+                          task.deleted_at,
+                          subtaskCount > 0 ? `with ${subtaskCount} ${subtaskCount === 1 ? 'subtask' : 'subtasks'}` : null
+                        )}
+                      </div>
+                      {renderActions(
+                        () => handleRestoreTask(task),
+                        () => setPendingPurge({ kind: 'task', task })
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPurge?.kind === 'all' ? 'Empty the trash?' : 'Delete permanently?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge?.kind === 'project'
+                ? 'The project and the tasks deleted with it are removed for good.'
+                : pendingPurge?.kind === 'task'
+                  ? 'The task, its subtasks, checklist and comments are removed for good.'
+                  : 'Everything in the trash is removed for good.'}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingPurge && handlePurge(pendingPurge)}>
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { Bookmark, Pin, PinOff, Link2, Users, Trash2, Save, Check } from 'lucide-react'
+import { SaveViewDialog } from './SaveViewDialog'
+import { blink } from '../blink/client'
+import { viewUrl } from '../lib/routes'
+import { useToast } from '../hooks/use-toast'
+import { useSavedViews } from '../hooks/use-saved-views'
+
+interface ViewsMenuProps {
+  // URL query string of what the task list currently shows
+  currentQuery: string
+  onApply: (query: string) => void
+}
+
+export function ViewsMenu({ currentQuery, onApply }: ViewsMenuProps) {
+  const { views, pinnedIds, saveView, updateView, removeView, togglePin } = useSavedViews()
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false)
+  const { toast } = useToast()
+
+  const userId = blink.auth.currentUser()?.id
+  const activeView = views.find(view => view.query === currentQuery)
+  // Only the owner can share or delete a view
+  const ownView = activeView?.user_id === userId ? activeView : undefined
+
+  const handleSave = async (name: string, shared: boolean) => {
+    try {
+      await saveView({ name, shared, query: currentQuery })
+      toast({
+        title: "Success",
+        description: `View "${name}" saved`,
+      })
+    } catch (error) {
+      console.error('Failed to save view:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save view. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleToggleShared = async () => {
+    if (!activeView) return
+    try {
+      await updateView(activeView.id, { shared: !activeView.shared })
+      toast({
+        title: "Success",
+        description: activeView.shared
+          ? `"${activeView.name}" is no longer shared`
+          : `"${activeView.name}" is now shared with your teammates`,
+      })
+    } catch (error) {
+      console.error('Failed to update view:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update view. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!activeView) return
+    try {
+      await navigator.clipboard.writeText(viewUrl(activeView.query))
+      toast({
+        title: "Link copied",
+        description: `Anyone on your team can open "${activeView.name}" with this link`,
+      })
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!activeView) return
+    try {
+      await removeView(activeView.id)
+      toast({
+        title: "Success",
+        description: `View "${activeView.name}" deleted`,
+      })
+    } catch (error) {
+      console.error('Failed to delete view:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete view. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="w-4 h-4 mr-2" />
+            {activeView ? activeView.name : 'Views'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {views.length > 0 && (
+            <>
+              <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+              {views.map((view) => (
+                <DropdownMenuItem key={view.id} onClick={() => onApply(view.query)}>
+                  <span className="w-4 mr-2">
+                    {view.id === activeView?.id && <Check className="w-4 h-4" />}
+                  </span>
+                  <span className="flex-1 truncate">{view.name}</span>
+                  {pinnedIds.includes(view.id) && <Pin className="w-3 h-3 text-muted-foreground" />}
+                  {view.user_id !== userId && (
+                    <span title={`Shared by ${view.user_email ?? 'a teammate'}`}>
+                      <Users className="w-3 h-3 ml-1 text-muted-foreground" />
+                    </span>
+                  )}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem onClick={() => setIsSaveDialogOpen(true)}>
+            <Save className="w-4 h-4 mr-2" />
+            Save current view...
+          </DropdownMenuItem>
+          {activeView && (
+            <>
+              <DropdownMenuItem onClick={() => togglePin(activeView.id)}>
+                {pinnedIds.includes(activeView.id) ? (
+                  <><PinOff className="w-4 h-4 mr-2" />Unpin from sidebar</>
+                ) : (
+                  <><Pin className="w-4 h-4 mr-2" />Pin to sidebar</>
+                )}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleCopyLink}>
+                <Link2 className="w-4 h-4 mr-2" />
+                Copy link
+              </DropdownMenuItem>
+              {ownView && (
+                <>
+                  <DropdownMenuItem onClick={handleToggleShared}>
+                    <Users className="w-4 h-4 mr-2" />
+                    {activeView.shared ? 'Stop sharing' : 'Share with team'}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete view
+                  </DropdownMenuItem>
+                </>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SaveViewDialog
+        open={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        defaultName={ownView?.name}
+        defaultShared={ownView?.shared}
+        onSave={handleSave}
+      />
+    </>
+  )
+}
@@ -0,0 +1,118 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { jsonList, optional, parseRows } from './validation'
+import type { Task, TaskInput } from './tasks'
+
+// Task fields whose changes are recorded, in the order they are listed
+export const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'start_date',
+  'due_date',
+  'estimate',
+  'assignee_email',
+  'project_id',
+  'label_ids',
+  'blocked_by',
+  'recurrence',
+] as const
+
+export type TrackedTaskField = typeof TRACKED_TASK_FIELDS[number]
+
+export const fieldChangeSchema = z.object({
+  field: z.enum(TRACKED_TASK_FIELDS),
+  from: optional(z.string()),
+  to: optional(z.string()),
+})
+
+export const taskActivitySchema = z.object({
+  id: z.string(),
+  task_id: z.string(),
+  // Title at the time, so entries still read well once the task is gone
+  task_title: z.string(),
+  project_id: optional(z.string()),
+  actor_id: z.string(),
+  actor_email: optional(z.string()),
+  action: z.enum(['created', 'updated', 'deleted', 'restored']),
+  changes: jsonList(fieldChangeSchema),
+  created_at: z.string(),
+})
+
+export type FieldChange = z.infer<typeof fieldChangeSchema>
+export type TaskActivity = z.infer<typeof taskActivitySchema>
+export type TaskActivityAction = TaskActivity['action']
+
+const TABLE = 'task_activity'
+const activity = () => blink.db.table(TABLE)
+
+// Changes are stored as text: id lists become sorted, comma separated ids and an empty list none
+const normalize = (field: TrackedTaskField, value: Task[TrackedTaskField]) => {
+  if (Array.isArray(value)) return value.length > 0 ? [...value].sort().join(',') : undefined
+  if (typeof value === 'number') return String(value)
+  if (!value) return undefined
+  return field === 'due_date' || field === 'start_date' ? value.slice(0, 10) : value
+}
+
+/**
+ * Field-level differences between a task and the values it is being updated
+ * with. Fields missing from `updates` are unchanged; `before` unset diffs a
+ * new task against nothing.
+ */
+export function diffTask(before: Task | undefined, updates: TaskInput): FieldChange[] {
+  return TRACKED_TASK_FIELDS.flatMap(field => {
+    if (!(field in updates)) return []
+    const from = normalize(field, before?.[field])
+    const to = normalize(field, updates[field])
+    return from === to ? [] : [{ field, from, to }]
+  })
+}
+
+/**
+ * Appends an entry to the task's history. History is best effort: a failure
+ * is logged and swallowed so it never fails the change it describes.
+ */
+export async function logTaskActivity(
+  actor: { id: string; email?: string },
+  task: Pick<Task, 'id' | 'title' | 'project_id'>,
+  action: TaskActivityAction,
+  changes: FieldChange[] = []
+): Promise<void> {
+  if (action === 'updated' && changes.length === 0) return
+
+  try {
+    await activity().create({
+      id: `activity_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      task_id: task.id,
+      task_title: task.title,
+      project_id: task.project_id ?? null,
+      actor_id: actor.id,
+      actor_email: actor.email ?? null,
+      action,
+      changes: JSON.stringify(changes),
+      created_at: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Failed to record task activity:', error)
+  }
+}
+
+// Newest first
+export async function listTaskActivity(taskId: string): Promise<TaskActivity[]> {
+  const rows = await activity().list({
+    where: { task_id: taskId },
+    orderBy: { created_at: 'desc' }
+  })
+  return parseRows(TABLE, taskActivitySchema, rows)
+}
+
+// Everything that happened to the project's tasks, newest first
+export async function listProjectActivity(projectId: string, options: { limit?: number } = {}): Promise<TaskActivity[]> {
+  const rows = await activity().list({
+    where: { project_id: projectId },
+    orderBy: { created_at: 'desc' },
+    limit: options.limit
+  })
+  return parseRows(TABLE, taskActivitySchema, rows)
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { bool, parseRow, parseRows, toRow } from './validation'
+
+export const checklistItemSchema = z.object({
+  id: z.string(),
+  task_id: z.string(),
+  text: z.string(),
+  done: bool,
+  position: z.coerce.number(),
+  created_at: z.string(),
+})
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>
+
+const TABLE = 'task_checklist_items'
+const checklistItems = () => blink.db.table(TABLE)
+
+export async function listChecklistItems(taskIds: string[]): Promise<ChecklistItem[]> {
+  if (taskIds.length === 0) return []
+
+  const rows = await checklistItems().list({
+    where: { task_id: { in: taskIds } },
+    orderBy: { position: 'asc' }
+  })
+  return parseRows(TABLE, checklistItemSchema, rows)
+}
+
+export async function createChecklistItem(taskId: string, text: string, position: number): Promise<ChecklistItem> {
+  const row = await checklistItems().create(toRow({
+    id: `check_${Date.now()}`,
+    task_id: taskId,
+    text,
+    done: false,
+    position,
+    created_at: new Date().toISOString()
+  }))
+  return parseRow(TABLE, checklistItemSchema, row)
+}
+
+export async function updateChecklistItem(
+  itemId: string,
+  updates: Partial<Pick<ChecklistItem, 'text' | 'done' | 'position'>>
+): Promise<void> {
+  await checklistItems().update(itemId, toRow(updates))
+}
+
+export async function deleteChecklistItem(itemId: string): Promise<void> {
+  await checklistItems().delete(itemId)
+}
+
+export async function deleteChecklistItemsForTask(taskId: string): Promise<void> {
+  await checklistItems().deleteMany({ where: { task_id: taskId } })
+}
@@ -0,0 +1,68 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { idList, parseRow, parseRows } from './validation'
+
+export const commentSchema = z.object({
+  id: z.string(),
+  task_id: z.string(),
+  user_id: z.string(),
+  user_email: z.string(),
+  body: z.string(),
+  // Ids of the teammates @mentioned in `body`
+  mentions: idList,
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type Comment = z.infer<typeof commentSchema>
+
+const TABLE = 'task_comments'
+const comments = () => blink.db.table(TABLE)
+
+// Oldest first, the order a thread is read in
+export async function listComments(taskId: string): Promise<Comment[]> {
+  const rows = await comments().list({
+    where: { task_id: taskId },
+    orderBy: { created_at: 'asc' }
+  })
+  return parseRows(TABLE, commentSchema, rows)
+}
+
+// Comments on any of `taskIds`, newest first
+export async function listCommentsForTasks(taskIds: string[]): Promise<Comment[]> {
+  if (taskIds.length === 0) return []
+
+  const rows = await comments().list({
+    where: { task_id: { in: taskIds } },
+    orderBy: { created_at: 'desc' }
+  })
+  return parseRows(TABLE, commentSchema, rows)
+}
+
+export async function createComment(
+  author: { id: string; email: string },
+  taskId: string,
+  body: string,
+  mentions: string[]
+): Promise<Comment> {
+  const now = new Date().toISOString()
+  const row = await comments().create({
+    id: `comment_${Date.now()}`,
+    task_id: taskId,
+    user_id: author.id,
+    user_email: author.email,
+    body,
+    mentions: JSON.stringify(mentions),
+    created_at: now,
+    updated_at: now
+  })
+  return parseRow(TABLE, commentSchema, row)
+}
+
+export async function deleteComment(commentId: string): Promise<void> {
+  await comments().delete(commentId)
+}
+
+export async function deleteCommentsForTask(taskId: string): Promise<void> {
+  await comments().deleteMany({ where: { task_id: taskId } })
+}
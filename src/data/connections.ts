@@ -0,0 +1,105 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { optional, parseRow, parseRows } from './validation'
+
+export const connectionSchema = z.object({
+  id: z.string(),
+  requester_id: z.string(),
+  // Unknown until the invited user signs up and responds
+  recipient_id: optional(z.string()),
+  status: z.enum(['pending', 'accepted', 'rejected']),
+  requester_email: optional(z.string()),
+  recipient_email: optional(z.string()),
+  created_at: z.string(),
+  updated_at: optional(z.string()),
+})
+
+export type Connection = z.infer<typeof connectionSchema>
+
+export interface TeamMember {
+  id: string
+  email: string
+  display_name?: string
+}
+
+const TABLE = 'user_connections'
+const connections = () => blink.db.table(TABLE)
+
+// Every connection the user sent or received, newest first
+export async function listConnections(userId: string): Promise<Connection[]> {
+  const rows = await connections().list({
+    where: {
+      OR: [
+        { requester_id: userId },
+        { recipient_id: userId }
+      ]
+    },
+    orderBy: { created_at: 'desc' }
+  })
+  return parseRows(TABLE, connectionSchema, rows)
+}
+
+export async function getConnection(connectionId: string): Promise<Connection | null> {
+  const row = await connections().get(connectionId)
+  return row ? parseRow(TABLE, connectionSchema, row) : null
+}
+
+export async function findInvite(requesterId: string, recipientEmail: string): Promise<Connection | null> {
+  const rows = await connections().list({
+    where: {
+      AND: [
+        { requester_id: requesterId },
+        { recipient_email: recipientEmail }
+      ]
+    },
+    limit: 1
+  })
+  return parseRows(TABLE, connectionSchema, rows)[0] ?? null
+}
+
+export async function createInvite(requester: { id: string; email: string }, recipientEmail: string): Promise<void> {
+  await connections().create({
+    requester_id: requester.id,
+    requester_email: requester.email,
+    recipient_email: recipientEmail,
+    status: 'pending'
+  })
+}
+
+export async function respondToInvite(connectionId: string, recipientId: string, accept: boolean): Promise<void> {
+  await connections().update(connectionId, {
+    status: accept ? 'accepted' : 'rejected',
+    recipient_id: recipientId,
+    updated_at: new Date().toISOString()
+  })
+}
+
+export async function deleteConnection(connectionId: string): Promise<void> {
+  await connections().delete(connectionId)
+}
+
+// The other side of each accepted connection
+export function toTeamMembers(userId: string, all: Connection[]): TeamMember[] {
+  const members: TeamMember[] = []
+
+  for (const conn of all) {
+    if (conn.status !== 'accepted') continue
+
+    const memberId = conn.requester_id === userId ? conn.recipient_id : conn.requester_id
+    const memberEmail = conn.requester_id === userId ? conn.recipient_email : conn.requester_email
+
+    if (memberId && memberEmail) {
+      members.push({
+        id: memberId,
+        email: memberEmail,
+        display_name: memberEmail.split('@')[0]
+      })
+    }
+  }
+
+  return members
+}
+
+export async function listTeamMembers(userId: string): Promise<TeamMember[]> {
+  return toTeamMembers(userId, await listConnections(userId))
+}
@@ -0,0 +1,12 @@
+export * from './tasks'
+export * from './projects'
+export * from './notifications'
+export * from './connections'
+export * from './checklists'
+export * from './comments'
+export * from './views'
+export * from './trash'
+export * from './activity'
+export * from './labels'
+export * from './workflows'
+export * from './migrations'
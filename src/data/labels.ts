@@ -0,0 +1,61 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { optional, parseRow, parseRows, toRow } from './validation'
+
+export const taskLabelSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  user_email: optional(z.string()),
+  name: z.string(),
+  color: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type TaskLabel = z.infer<typeof taskLabelSchema>
+export type TaskLabelInput = Partial<Pick<TaskLabel, 'name' | 'color'>>
+
+const TABLE = 'labels'
+const labels = () => blink.db.table(TABLE)
+
+// The user's own labels plus their teammates', alphabetically
+export async function listLabels(userId: string, teammateIds: string[]): Promise<TaskLabel[]> {
+  const rows = await labels().list({
+    where: {
+      OR: [
+        { user_id: userId },
+        ...(teammateIds.length > 0 ? [{ user_id: { in: teammateIds } }] : [])
+      ]
+    },
+    orderBy: { name: 'asc' }
+  })
+  return parseRows(TABLE, taskLabelSchema, rows)
+}
+
+export async function createLabel(
+  owner: { id: string; email: string },
+  input: TaskLabelInput & { name: string; color: string }
+): Promise<TaskLabel> {
+  const now = new Date().toISOString()
+  const row = await labels().create(toRow({
+    ...input,
+    id: `label_${Date.now()}`,
+    user_id: owner.id,
+    user_email: owner.email,
+    created_at: now,
+    updated_at: now
+  }))
+  return parseRow(TABLE, taskLabelSchema, row)
+}
+
+export async function updateLabel(labelId: string, updates: TaskLabelInput): Promise<void> {
+  await labels().update(labelId, toRow({
+    ...updates,
+    updated_at: new Date().toISOString()
+  }))
+}
+
+// Tasks keep the id until they are next saved; callers strip it from the tasks they can see
+export async function deleteLabel(labelId: string): Promise<void> {
+  await labels().delete(labelId)
+}
@@ -0,0 +1,43 @@
+import { blink } from '../blink/client'
+import { parseRows } from './validation'
+import { taskSchema } from './tasks'
+
+/**
+ * One-off data fixes for rows written by older versions of the app. Each
+ * migration only touches rows that still need it, so running them again is
+ * cheap and safe.
+ */
+
+// Tasks from before project workflows have a status but no status category.
+// Reading fills the category in from the default workflow; this writes it back.
+async function backfillStatusCategories(userId: string) {
+  const rows = await blink.db.table('tasks').list({
+    where: { user_id: userId, status_category: { is: null } }
+  })
+  for (const task of parseRows('tasks', taskSchema, rows)) {
+    // Not `updateTask`: a migration is not an edit, so `updated_at` stays as it was
+    await blink.db.table('tasks').update(task.id, { status_category: task.status_category })
+  }
+}
+
+const MIGRATIONS = [backfillStatusCategories]
+
+const started = new Map<string, Promise<void>>()
+
+// Runs once per user and page load; failures are logged and retried on the next load
+export function runMigrations(userId: string): Promise<void> {
+  let run = started.get(userId)
+  if (!run) {
+    run = (async () => {
+      for (const migrate of MIGRATIONS) {
+        try {
+          await migrate(userId)
+        } catch (error) {
+          console.error(`Migration ${migrate.name} failed:`, error)
+        }
+      }
+    })()
+    started.set(userId, run)
+  }
+  return run
+}
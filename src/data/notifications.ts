@@ -0,0 +1,56 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { flag, optional, parseRow, parseRows } from './validation'
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  data: optional(z.string()),
+  read: flag,
+  created_at: z.string(),
+})
+
+export type Notification = z.infer<typeof notificationSchema>
+
+export interface NotificationInput {
+  user_id: string
+  type: string
+  title: string
+  message: string
+  data?: Record<string, unknown>
+}
+
+const TABLE = 'notifications'
+const notifications = () => blink.db.table(TABLE)
+
+export async function listNotifications(userId: string, options: { limit?: number } = {}): Promise<Notification[]> {
+  const rows = await notifications().list({
+    where: { user_id: userId },
+    orderBy: { created_at: 'desc' },
+    limit: options.limit
+  })
+  return parseRows(TABLE, notificationSchema, rows)
+}
+
+export async function getNotification(notificationId: string): Promise<Notification | null> {
+  const row = await notifications().get(notificationId)
+  return row ? parseRow(TABLE, notificationSchema, row) : null
+}
+
+export async function createNotification({ data, ...input }: NotificationInput): Promise<void> {
+  await notifications().create({
+    ...input,
+    data: data ? JSON.stringify(data) : undefined
+  })
+}
+
+export async function markNotificationRead(notificationId: string): Promise<void> {
+  await notifications().update(notificationId, { read: 1 })
+}
+
+export async function deleteNotification(notificationId: string): Promise<void> {
+  await notifications().delete(notificationId)
+}
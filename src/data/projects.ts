@@ -0,0 +1,82 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { jsonList, optional, parseRow, parseRows, toRow } from './validation'
+import { workflowStatusSchema } from './workflows'
+
+export const projectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: optional(z.string()),
+  color: z.string(),
+  // A single emoji shown in place of the color dot
+  icon: optional(z.string()),
+  start_date: optional(z.string()),
+  target_date: optional(z.string()),
+  // Ordered workflow statuses; empty means the default workflow (see data/workflows)
+  statuses: jsonList(workflowStatusSchema),
+  // Set while the project is in the trash (see data/trash)
+  deleted_at: optional(z.string()),
+  user_id: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type Project = z.infer<typeof projectSchema>
+export type ProjectInput = Partial<Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'deleted_at'>>
+
+const TABLE = 'projects'
+const projects = () => blink.db.table(TABLE)
+
+// Trashed projects are left out
+export async function listProjects(userId: string): Promise<Project[]> {
+  const rows = await projects().list({
+    where: { user_id: userId, deleted_at: { is: null } },
+    orderBy: { created_at: 'desc' }
+  })
+  return parseRows(TABLE, projectSchema, rows)
+}
+
+export async function listTrashedProjects(userId: string): Promise<Project[]> {
+  const rows = await projects().list({
+    // Any timestamp, i.e. not NULL
+    where: { user_id: userId, deleted_at: { gt: '' } },
+    orderBy: { deleted_at: 'desc' }
+  })
+  return parseRows(TABLE, projectSchema, rows)
+}
+
+export async function getProject(projectId: string): Promise<Project | null> {
+  const row = await projects().get(projectId)
+  return row ? parseRow(TABLE, projectSchema, row) : null
+}
+
+export async function createProject(userId: string, input: ProjectInput & { name: string; color: string }): Promise<Project> {
+  const now = new Date().toISOString()
+  const row = await projects().create(toRow({
+    ...input,
+    id: `proj_${Date.now()}`,
+    user_id: userId,
+    created_at: now,
+    updated_at: now
+  }))
+  return parseRow(TABLE, projectSchema, row)
+}
+
+export async function updateProject(projectId: string, updates: ProjectInput): Promise<void> {
+  await projects().update(projectId, toRow({
+    ...updates,
+    updated_at: new Date().toISOString()
+  }))
+}
+
+export async function trashProject(projectId: string, deletedAt: string): Promise<void> {
+  await projects().update(projectId, { deleted_at: deletedAt })
+}
+
+export async function restoreProject(projectId: string): Promise<void> {
+  await projects().update(projectId, { deleted_at: null })
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  await projects().delete(projectId)
+}
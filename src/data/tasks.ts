@@ -0,0 +1,220 @@
+import { z } from 'zod'
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns'
+import { blink } from '../blink/client'
+import { bool, idList, optional, parseRow, parseRows, toRow } from './validation'
+import { defaultCategory, statusCategorySchema } from './workflows'
+
+export const taskPrioritySchema = z.enum(['low', 'medium', 'high'])
+
+export const taskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: optional(z.string()),
+  // Id of a status in the project's workflow (see data/workflows)
+  status: z.string(),
+  // Category of `status`; rows saved before workflows existed only have the status
+  status_category: optional(statusCategorySchema),
+  priority: taskPrioritySchema,
+  // yyyy-MM-dd the work is planned to begin; with `due_date` it spans the task's bar on the timeline
+  start_date: optional(z.string()),
+  due_date: optional(z.string()),
+  // Expected effort, in hours
+  estimate: optional(z.coerce.number()),
+  project_id: optional(z.string()),
+  user_id: z.string(),
+  assignee_id: optional(z.string()),
+  assignee_email: optional(z.string()),
+  // Set on subtasks; points at the task they belong to
+  parent_id: optional(z.string()),
+  // Parent moves to done on its own once every subtask is done
+  auto_complete: bool,
+  // RRULE string (see lib/recurrence); completing the task schedules the next one
+  recurrence: optional(z.string()),
+  // Id of the first task in a recurring series; unset on that first task itself
+  series_id: optional(z.string()),
+  // 1-based position within the series
+  occurrence: optional(z.coerce.number()),
+  // Manual order shared by everyone who sees the task (see lib/rank); unset until first moved
+  rank: optional(z.string()),
+  // Ids of the labels on the task (see data/labels)
+  label_ids: idList,
+  // Ids of the tasks that have to be done before this one can start
+  blocked_by: idList,
+  // Set while the task is in the trash (see data/trash)
+  deleted_at: optional(z.string()),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).transform((task) => ({
+  ...task,
+  status_category: task.status_category ?? defaultCategory(task.status),
+}))
+
+export type Task = z.infer<typeof taskSchema>
+export type TaskStatus = Task['status']
+export type TaskPriority = Task['priority']
+export type TaskInput = Partial<Omit<Task, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'deleted_at'>>
+
+const TABLE = 'tasks'
+const tasks = () => blink.db.table(TABLE)
+
+const visibleTo = (userId: string) => ({
+  OR: [
+    { user_id: userId },
+    { assignee_id: userId }
+  ]
+})
+
+// Tasks the user created or has been assigned, newest first; trashed tasks are left out
+export async function listTasks(userId: string, options: { limit?: number } = {}): Promise<Task[]> {
+  const rows = await tasks().list({
+    where: {
+      AND: [visibleTo(userId), { deleted_at: { is: null } }]
+    },
+    orderBy: { created_at: 'desc' },
+    limit: options.limit
+  })
+  return parseRows(TABLE, taskSchema, rows)
+}
+
+// The user's tasks that are in the trash, most recently deleted first
+export async function listTrashedTasks(userId: string): Promise<Task[]> {
+  const rows = await tasks().list({
+    where: {
+      // Any timestamp, i.e. not NULL
+      AND: [visibleTo(userId), { deleted_at: { gt: '' } }]
+    },
+    orderBy: { deleted_at: 'desc' }
+  })
+  return parseRows(TABLE, taskSchema, rows)
+}
+
+export async function getTask(taskId: string): Promise<Task | null> {
+  const row = await tasks().get(taskId)
+  return row ? parseRow(TABLE, taskSchema, row) : null
+}
+
+export async function createTask(userId: string, input: TaskInput & { title: string }): Promise<Task> {
+  const now = new Date().toISOString()
+  const status = input.status || 'todo'
+  const row = await tasks().create(toRow({
+    ...input,
+    id: `task_${Date.now()}`,
+    status,
+    status_category: input.status_category ?? defaultCategory(status),
+    priority: input.priority || 'medium',
+    description: input.description || '',
+    user_id: userId,
+    created_at: now,
+    updated_at: now
+  }))
+  return parseRow(TABLE, taskSchema, row)
+}
+
+export async function updateTask(taskId: string, updates: TaskInput): Promise<void> {
+  await tasks().update(taskId, toRow({
+    ...updates,
+    updated_at: new Date().toISOString()
+  }))
+}
+
+// Moves a task to the trash; `deletedAt` is shared by everything trashed together
+export async function trashTask(taskId: string, deletedAt: string): Promise<void> {
+  await tasks().update(taskId, { deleted_at: deletedAt })
+}
+
+export async function restoreTask(taskId: string): Promise<void> {
+  await tasks().update(taskId, { deleted_at: null })
+}
+
+// Permanent; see purgeTask in data/trash for removing a task with its checklist and comments
+export async function deleteTask(taskId: string): Promise<void> {
+  await tasks().delete(taskId)
+}
+
+// Direct children of a task, in creation order
+export function getSubtasks(parentId: string, all: Task[]): Task[] {
+  return all
+    .filter(task => task.parent_id === parentId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+// Every task below `parentId`, however deeply nested
+export function getDescendants(parentId: string, all: Task[]): Task[] {
+  const children = all.filter(task => task.parent_id === parentId)
+  return children.flatMap(child => [child, ...getDescendants(child.id, all)])
+}
+
+// Unfinished tasks that `task` is waiting on; ids of tasks not in `all` are ignored
+export function getOpenBlockers(task: Pick<Task, 'blocked_by'>, all: Task[]): Task[] {
+  return all.filter(other => task.blocked_by.includes(other.id) && other.status_category !== 'done')
+}
+
+// Tasks that are waiting on `taskId`
+export function getBlockedTasks(taskId: string, all: Task[]): Task[] {
+  return all.filter(task => task.blocked_by.includes(taskId))
+}
+
+// Whether making `taskId` wait on `blockerId` would close a loop, i.e. the
+// blocker already waits on the task, directly or through other tasks
+export function createsCycle(taskId: string, blockerId: string, all: Task[]): boolean {
+  const byId = new Map(all.map(task => [task.id, task]))
+  const seen = new Set<string>()
+  const pending = [blockerId]
+  while (pending.length > 0) {
+    const id = pending.pop()!
+    if (id === taskId) return true
+    if (seen.has(id)) continue
+    seen.add(id)
+    pending.push(...(byId.get(id)?.blocked_by ?? []))
+  }
+  return false
+}
+
+// Key shared by every occurrence of a recurring task
+export const seriesKey = (task: Task) => task.series_id ?? task.id
+
+/**
+ * Updates that give a task a new due date without leaving its start date after
+ * it: the start moves by as many days as the due date did, or up to the new due
+ * date when the task had none before.
+ */
+export function dueDateUpdates(task: Pick<Task, 'start_date' | 'due_date'>, dueDate: string | undefined): TaskInput {
+  const updates: TaskInput = { due_date: dueDate }
+  const startDay = task.start_date?.slice(0, 10)
+  const previousDue = task.due_date?.slice(0, 10)
+  if (!startDay || !dueDate) return updates
+  if (previousDue) {
+    const shift = differenceInCalendarDays(parseISO(dueDate), parseISO(previousDue))
+    updates.start_date = format(addDays(parseISO(startDay), shift), 'yyyy-MM-dd')
+  } else if (startDay > dueDate) {
+    updates.start_date = dueDate
+  }
+  return updates
+}
+
+// Due before today, by the local calendar day; a task due today is not overdue yet
+export const isOverdue = (task: Task, now = new Date()) =>
+  !!task.due_date && task.due_date.slice(0, 10) < format(startOfDay(now), 'yyyy-MM-dd') && task.status_category !== 'done'
+
+// Counts go by status category, so they work across projects with different workflows
+export interface TaskSummary {
+  total: number
+  todo: number
+  inProgress: number
+  done: number
+  overdue: number
+  // Share of tasks that are done, 0-100
+  percent: number
+}
+
+export function summarizeTasks(all: Task[], now = new Date()): TaskSummary {
+  const done = all.filter(task => task.status_category === 'done').length
+  return {
+    total: all.length,
+    todo: all.filter(task => task.status_category === 'not_started').length,
+    inProgress: all.filter(task => task.status_category === 'active').length,
+    done,
+    overdue: all.filter(task => isOverdue(task, now)).length,
+    percent: all.length === 0 ? 0 : Math.round((done / all.length) * 100),
+  }
+}
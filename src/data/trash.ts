@@ -0,0 +1,49 @@
+import { addDays, parseISO } from 'date-fns'
+import { deleteChecklistItemsForTask } from './checklists'
+import { deleteCommentsForTask } from './comments'
+import { deleteProject, listTrashedProjects, type Project } from './projects'
+import { deleteTask, getDescendants, listTrashedTasks, type Task } from './tasks'
+
+// Trashed tasks and projects are deleted for good after this many days
+export const TRASH_RETENTION_DAYS = 30
+
+export const purgeDate = (deletedAt: string) => addDays(parseISO(deletedAt), TRASH_RETENTION_DAYS)
+
+// Permanently deletes a task together with its checklist and comments
+export async function purgeTask(taskId: string): Promise<void> {
+  await deleteChecklistItemsForTask(taskId)
+  await deleteCommentsForTask(taskId)
+  await deleteTask(taskId)
+}
+
+/**
+ * A trashed task and the subtasks that went to the trash with it. Subtasks
+ * trashed on their own earlier stay in the trash when the parent is restored.
+ */
+export function trashedTree(task: Task, trashed: Task[]): Task[] {
+  return [task, ...getDescendants(task.id, trashed).filter(t => t.deleted_at === task.deleted_at)]
+}
+
+/**
+ * Everything in the user's trash, after permanently deleting whatever has
+ * been there longer than the retention period.
+ */
+export async function listTrash(userId: string, now = new Date()): Promise<{ tasks: Task[]; projects: Project[] }> {
+  const [tasks, projects] = await Promise.all([
+    listTrashedTasks(userId),
+    listTrashedProjects(userId),
+  ])
+  const isExpired = (deletedAt?: string) => !!deletedAt && purgeDate(deletedAt) <= now
+
+  for (const task of tasks.filter(t => isExpired(t.deleted_at))) {
+    await purgeTask(task.id)
+  }
+  for (const project of projects.filter(p => isExpired(p.deleted_at))) {
+    await deleteProject(project.id)
+  }
+
+  return {
+    tasks: tasks.filter(t => !isExpired(t.deleted_at)),
+    projects: projects.filter(p => !isExpired(p.deleted_at)),
+  }
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod'
+
+// Blink returns NULL columns as `null`; the app models missing values as `undefined`
+export const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined)
+
+// SQLite stores booleans as 0/1 integers (sometimes serialized as strings)
+export const flag = z.coerce.number()
+
+// Boolean column; NULL and missing values read as false
+export const bool = z.preprocess((value) => Number(value ?? 0) > 0, z.boolean())
+
+// Text column holding a JSON-encoded array; NULL reads as empty
+export const jsonList = <T extends z.ZodType>(item: T) => z.preprocess((value) => {
+  if (typeof value !== 'string') return value ?? []
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}, z.array(item))
+
+// Text column holding a JSON-encoded array of ids
+export const idList = jsonList(z.string())
+
+/**
+ * Validate a single row returned by the SDK. Throws when the row no longer
+ * matches the schema so callers surface it like any other failed request.
+ */
+export function parseRow<T extends z.ZodType>(table: string, schema: T, row: unknown): z.output<T> {
+  const result = schema.safeParse(row)
+  if (!result.success) {
+    console.error(`Invalid row in "${table}":`, z.prettifyError(result.error), row)
+    throw new Error(`Invalid row in "${table}"`)
+  }
+  return result.data
+}
+
+/**
+ * Validate a list of rows. Rows that fail validation are logged and dropped so
+ * one malformed record does not take down a whole page.
+ */
+export function parseRows<T extends z.ZodType>(table: string, schema: T, rows: unknown[]): z.output<T>[] {
+  const parsed: z.output<T>[] = []
+  for (const row of rows) {
+    const result = schema.safeParse(row)
+    if (result.success) {
+      parsed.push(result.data)
+    } else {
+      console.error(`Skipping invalid row in "${table}":`, z.prettifyError(result.error), row)
+    }
+  }
+  return parsed
+}
+
+// Blink only clears a column when it is sent as `null`, never when it is omitted.
+// Arrays are stored as JSON text, the way `jsonList` reads them back.
+export function toRow<T extends object>(data: T): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      typeof value === 'boolean' ? Number(value) : Array.isArray(value) ? JSON.stringify(value) : value ?? null
+    ])
+  )
+}
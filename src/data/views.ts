@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { bool, optional, parseRow, parseRows, toRow } from './validation'
+
+export const savedViewSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  user_email: optional(z.string()),
+  name: z.string(),
+  // Task list URL query string, e.g. "status=todo&sort=due"
+  query: z.string(),
+  // Shared views show up for every teammate of the owner
+  shared: bool,
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export type SavedView = z.infer<typeof savedViewSchema>
+export type SavedViewInput = Partial<Pick<SavedView, 'name' | 'query' | 'shared'>>
+
+const TABLE = 'saved_views'
+const savedViews = () => blink.db.table(TABLE)
+
+// The user's own views plus the ones teammates shared, alphabetically
+export async function listSavedViews(userId: string, teammateIds: string[]): Promise<SavedView[]> {
+  const rows = await savedViews().list({
+    where: {
+      OR: [
+        { user_id: userId },
+        ...(teammateIds.length > 0 ? [{ user_id: { in: teammateIds }, shared: 1 }] : [])
+      ]
+    },
+    orderBy: { name: 'asc' }
+  })
+  return parseRows(TABLE, savedViewSchema, rows)
+}
+
+export async function createSavedView(
+  owner: { id: string; email: string },
+  input: SavedViewInput & { name: string; query: string }
+): Promise<SavedView> {
+  const now = new Date().toISOString()
+  const row = await savedViews().create(toRow({
+    shared: false,
+    ...input,
+    id: `view_${Date.now()}`,
+    user_id: owner.id,
+    user_email: owner.email,
+    created_at: now,
+    updated_at: now
+  }))
+  return parseRow(TABLE, savedViewSchema, row)
+}
+
+export async function updateSavedView(viewId: string, updates: SavedViewInput): Promise<void> {
+  await savedViews().update(viewId, toRow({
+    ...updates,
+    updated_at: new Date().toISOString()
+  }))
+}
+
+export async function deleteSavedView(viewId: string): Promise<void> {
+  await savedViews().delete(viewId)
+}
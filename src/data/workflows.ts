@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import type { Project } from './projects'
+import type { Task } from './tasks'
+
+/**
+ * Projects can replace the default To Do / In Progress / Done statuses with
+ * their own ordered list. Every status belongs to a category, and the category
+ * is what the rest of the app goes by: overdue checks, dashboards, completion
+ * notifications and recurrence.
+ */
+export const statusCategorySchema = z.enum(['not_started', 'active', 'done'])
+export type StatusCategory = z.infer<typeof statusCategorySchema>
+
+export const STATUS_CATEGORIES: { value: StatusCategory; label: string }[] = [
+  { value: 'not_started', label: 'Not started' },
+  { value: 'active', label: 'Active' },
+  { value: 'done', label: 'Done' },
+]
+
+export const workflowStatusSchema = z.object({
+  // Slug of the name the status was created with; kept on rename so tasks keep pointing at it
+  id: z.string(),
+  name: z.string(),
+  category: statusCategorySchema,
+})
+
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>
+
+// Projects without statuses of their own use these, as did every task before workflows existed
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: 'todo', name: 'To Do', category: 'not_started' },
+  { id: 'in_progress', name: 'In Progress', category: 'active' },
+  { id: 'done', name: 'Done', category: 'done' },
+]
+
+export const projectWorkflow = (project?: Pick<Project, 'statuses'> | null): WorkflowStatus[] =>
+  project?.statuses.length ? project.statuses : DEFAULT_WORKFLOW
+
+export const taskWorkflow = (task: Pick<Task, 'project_id'>, projects: Project[]) =>
+  projectWorkflow(projects.find(project => project.id === task.project_id))
+
+// Category of a status of the default workflow; anything else counts as not started
+export const defaultCategory = (statusId: string): StatusCategory =>
+  DEFAULT_WORKFLOW.find(status => status.id === statusId)?.category ?? 'not_started'
+
+/**
+ * Where a task belongs in `workflow`: its own status when the workflow has it,
+ * else the first status of the same category, else the first status. Used when
+ * a task moves between projects and when a project's workflow changes.
+ */
+export function placeStatus(
+  workflow: WorkflowStatus[],
+  task: Pick<Task, 'status' | 'status_category'>
+): WorkflowStatus {
+  return workflow.find(status => status.id === task.status) ??
+    workflow.find(status => status.category === task.status_category) ??
+    workflow[0]
+}
+
+export const firstOfCategory = (workflow: WorkflowStatus[], category: StatusCategory) =>
+  workflow.find(status => status.category === category) ?? workflow[0]
+
+// The task fields that put a task in `status`
+export const statusFields = (status: WorkflowStatus) => ({ status: status.id, status_category: status.category })
+
+// Display name of a status id, looking through every known workflow
+export function statusName(statusId: string, projects: Project[] = []): string {
+  const status = [...projects.flatMap(project => project.statuses), ...DEFAULT_WORKFLOW]
+    .find(s => s.id === statusId)
+  return status?.name ?? statusId.replace(/_/g, ' ')
+}
+
+// Display name of a task's status, preferring its own project's workflow
+export const statusLabel = (task: Pick<Task, 'status' | 'project_id'>, projects: Project[] = []) =>
+  taskWorkflow(task, projects).find(status => status.id === task.status)?.name ?? statusName(task.status, projects)
+
+// Id for a new status: the name as a slug, numbered when the workflow already has it
+export function newStatusId(name: string, workflow: Pick<WorkflowStatus, 'id'>[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'status'
+  let id = base
+  for (let n = 2; workflow.some(status => status.id === id); n++) id = `${base}_${n}`
+  return id
+}
@@ -0,0 +1,36 @@
+import { createContext, useContext, useEffect, type ComponentType } from 'react'
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  group: string
+  icon?: ComponentType<{ className?: string }>
+  // Extra words the command can be found by, e.g. "theme" for "Toggle dark mode"
+  keywords?: string[]
+  run: () => void
+}
+
+interface CommandsContextValue {
+  // Adds commands to the palette and returns a function that removes them again
+  register: (commands: PaletteCommand[]) => () => void
+  setOpen: (open: boolean) => void
+}
+
+export const CommandsContext = createContext<CommandsContextValue | null>(null)
+
+export function useCommandPalette() {
+  const context = useContext(CommandsContext)
+  if (!context) {
+    throw new Error('useCommandPalette must be used within a CommandPaletteProvider')
+  }
+  return context
+}
+
+/**
+ * Registers page specific commands while the page is mounted. A page command
+ * replaces a global one with the same id.
+ */
+export function useRegisterCommands(commands: PaletteCommand[]) {
+  const { register } = useCommandPalette()
+  useEffect(() => register(commands), [register, commands])
+}
@@ -0,0 +1,75 @@
+import { useEffect } from 'react'
+import { blink } from '../blink/client'
+import { COLOR_PALETTE } from '../lib/colors'
+import { createStore } from '../lib/store'
+import {
+  listLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+  listTeamMembers,
+  type TaskLabel,
+  type TaskLabelInput,
+} from '../data'
+
+interface LabelsState {
+  labels: TaskLabel[]
+  loaded: boolean
+}
+
+// Labels are shown on every task card and edited from several places
+const store = createStore<LabelsState>({ labels: [], loaded: false }, fetchLabels)
+const { getState, setState } = store
+
+export const loadLabels = store.load
+
+async function fetchLabels() {
+  try {
+    const user = await blink.auth.me()
+    const teammates = await listTeamMembers(user.id)
+    setState({
+      labels: await listLabels(user.id, teammates.map(member => member.id)),
+      loaded: true,
+    })
+  } catch (error) {
+    console.error('Failed to load labels:', error)
+  }
+}
+
+const byName = (a: TaskLabel, b: TaskLabel) => a.name.localeCompare(b.name)
+
+// Without a color, new labels take the palette's colors in turn
+async function addLabel(input: TaskLabelInput & { name: string }): Promise<TaskLabel> {
+  const user = await blink.auth.me()
+  const { labels } = getState()
+  const label = await createLabel(user, { color: COLOR_PALETTE[labels.length % COLOR_PALETTE.length], ...input })
+  setState({ labels: [...getState().labels, label].sort(byName) })
+  return label
+}
+
+async function editLabel(labelId: string, updates: TaskLabelInput) {
+  await updateLabel(labelId, updates)
+  setState({
+    labels: getState().labels.map(label => label.id === labelId ? { ...label, ...updates } : label).sort(byName),
+  })
+}
+
+async function removeLabel(labelId: string) {
+  await deleteLabel(labelId)
+  setState({ labels: getState().labels.filter(label => label.id !== labelId) })
+}
+
+export function useLabels() {
+  const snapshot = store.useStore()
+
+  useEffect(() => {
+    if (!getState().loaded) loadLabels()
+  }, [])
+
+  return {
+    ...snapshot,
+    addLabel,
+    editLabel,
+    removeLabel,
+  }
+}
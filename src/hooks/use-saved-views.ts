@@ -0,0 +1,106 @@
+import { useEffect } from 'react'
+import { blink } from '../blink/client'
+import { createStore } from '../lib/store'
+import { readPreference, writePreference } from './use-user-preference'
+import {
+  listSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  listTeamMembers,
+  type SavedView,
+  type SavedViewInput,
+} from '../data'
+
+const PINNED_KEY = 'views.pinned'
+
+interface SavedViewsState {
+  views: SavedView[]
+  // Pins are personal, so they live in preferences rather than on the shared row
+  pinnedIds: string[]
+  loaded: boolean
+}
+
+// Saved views are shown by both the Sidebar and the task list, which mount together
+const store = createStore<SavedViewsState>({ views: [], pinnedIds: [], loaded: false }, fetchSavedViews)
+const { getState, setState } = store
+
+export const loadSavedViews = store.load
+
+async function fetchSavedViews() {
+  try {
+    const user = await blink.auth.me()
+    const teammates = await listTeamMembers(user.id)
+    setState({
+      views: await listSavedViews(user.id, teammates.map(member => member.id)),
+      pinnedIds: readPreference<string[]>(PINNED_KEY, []),
+      loaded: true,
+    })
+  } catch (error) {
+    console.error('Failed to load saved views:', error)
+  }
+}
+
+const byName = (a: SavedView, b: SavedView) => a.name.localeCompare(b.name)
+
+async function saveView(input: SavedViewInput & { name: string; query: string }): Promise<SavedView> {
+  const user = await blink.auth.me()
+  // Saving under the name of one of your own views overwrites it
+  const existing = getState().views.find(view =>
+    view.user_id === user.id && view.name.toLowerCase() === input.name.toLowerCase()
+  )
+  if (existing) {
+    await updateSavedView(existing.id, input)
+    const updated = { ...existing, ...input }
+    setState({ views: getState().views.map(view => view.id === existing.id ? updated : view) })
+    return updated
+  }
+
+  const view = await createSavedView(user, input)
+  setState({ views: [...getState().views, view].sort(byName) })
+  return view
+}
+
+async function updateView(viewId: string, updates: SavedViewInput) {
+  await updateSavedView(viewId, updates)
+  setState({
+    views: getState().views.map(view => view.id === viewId ? { ...view, ...updates } : view).sort(byName),
+  })
+}
+
+async function removeView(viewId: string) {
+  await deleteSavedView(viewId)
+  setState({
+    views: getState().views.filter(view => view.id !== viewId),
+    pinnedIds: getState().pinnedIds.filter(id => id !== viewId),
+  })
+  writePreference(PINNED_KEY, getState().pinnedIds)
+}
+
+function togglePin(viewId: string) {
+  const current = getState().pinnedIds
+  const pinnedIds = current.includes(viewId)
+    ? current.filter(id => id !== viewId)
+    : [...current, viewId]
+  setState({ pinnedIds })
+  writePreference(PINNED_KEY, pinnedIds)
+}
+
+export function useSavedViews() {
+  const snapshot = store.useStore()
+
+  useEffect(() => {
+    if (!getState().loaded) loadSavedViews()
+  }, [])
+
+  return {
+    ...snapshot,
+    pinnedViews: snapshot.pinnedIds
+      .map(id => snapshot.views.find(view => view.id === id))
+      .filter((view): view is SavedView => !!view),
+    saveView,
+    updateView,
+    removeView,
+    togglePin,
+  }
+}
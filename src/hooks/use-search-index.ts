@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react'
+import { blink } from '../blink/client'
+import type { SearchIndex } from '../lib/search'
+import {
+  listTasks,
+  listProjects,
+  listTeamMembers,
+  listCommentsForTasks,
+} from '../data'
+
+const EMPTY_INDEX: SearchIndex = { tasks: [], projects: [], comments: [], members: [] }
+
+// Everything the signed-in user can see, loaded on demand for client side search
+export function useSearchIndex() {
+  const [index, setIndex] = useState<SearchIndex>(EMPTY_INDEX)
+  const [loading, setLoading] = useState(false)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    try {
+      const user = await blink.auth.me()
+      const [tasks, projects, members] = await Promise.all([
+        listTasks(user.id),
+        listProjects(user.id),
+        listTeamMembers(user.id),
+      ])
+      const comments = await listCommentsForTasks(tasks.map(task => task.id))
+      setIndex({ tasks, projects, comments, members })
+    } catch (error) {
+      console.error('Failed to load search index:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  return { index, loading, reload }
+}
@@ -0,0 +1,22 @@
+import { useSyncExternalStore, useCallback } from 'react'
+
+// The theme is the `dark` class on <html>; every toggle reads and writes it there
+const isDarkMode = () => document.documentElement.classList.contains('dark')
+
+function subscribe(onChange: () => void) {
+  const observer = new MutationObserver(onChange)
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] })
+  return () => observer.disconnect()
+}
+
+export function useTheme() {
+  const isDark = useSyncExternalStore(subscribe, isDarkMode)
+
+  const setDark = useCallback((dark: boolean) => {
+    document.documentElement.classList.toggle('dark', dark)
+  }, [])
+
+  const toggleTheme = useCallback(() => setDark(!isDarkMode()), [setDark])
+
+  return { isDark, setDark, toggleTheme }
+}
@@ -0,0 +1,34 @@
+import { useState, useCallback } from 'react'
+import { blink } from '../blink/client'
+
+const storageKey = (key: string) =>
+  `taskflow:${blink.auth.currentUser()?.id ?? 'anonymous'}:${key}`
+
+export function readPreference<T>(key: string, defaultValue: T): T {
+  try {
+    const raw = localStorage.getItem(storageKey(key))
+    return raw === null ? defaultValue : JSON.parse(raw)
+  } catch {
+    return defaultValue
+  }
+}
+
+export function writePreference<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(storageKey(key), JSON.stringify(value))
+  } catch (error) {
+    console.error('Failed to save preference:', error)
+  }
+}
+
+// UI preference kept in localStorage, namespaced by the signed-in user
+export function useUserPreference<T>(key: string, defaultValue: T) {
+  const [value, setValue] = useState<T>(() => readPreference(key, defaultValue))
+
+  const updateValue = useCallback((next: T) => {
+    setValue(next)
+    writePreference(key, next)
+  }, [key])
+
+  return [value, updateValue] as const
+}
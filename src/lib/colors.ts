@@ -0,0 +1,5 @@
+// Colors offered for projects and labels
+export const COLOR_PALETTE = [
+  '#2563eb', '#7c3aed', '#db2777', '#dc2626', '#ea580c',
+  '#ca8a04', '#16a34a', '#0d9488', '#0891b2', '#64748b',
+]
@@ -0,0 +1,47 @@
+import type { TeamMember } from '../data'
+import { escapeRegExp } from './utils'
+
+// The handle typed after "@" for a teammate, e.g. "jane.doe" for jane.doe@acme.com
+export const mentionHandle = (member: TeamMember) =>
+  member.display_name || member.email.split('@')[0]
+
+/**
+ * The partially typed mention right before the caret, if any. `start` is the
+ * index of the "@" so the caller can replace it with the completed handle.
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { query: match[2], start: caret - match[2].length - 1 }
+}
+
+export function filterMembers(members: TeamMember[], query: string): TeamMember[] {
+  const needle = query.toLowerCase()
+  return members.filter(member =>
+    mentionHandle(member).toLowerCase().includes(needle) ||
+    member.email.toLowerCase().includes(needle)
+  )
+}
+
+const handlePattern = (handle: string) =>
+  new RegExp(`(^|\\s)@${escapeRegExp(handle)}(?![\\w.-])`, 'i')
+
+// Teammates whose handle appears as a whole "@handle" token in the text
+export function extractMentions(text: string, members: TeamMember[]): TeamMember[] {
+  return members.filter(member => handlePattern(mentionHandle(member)).test(text))
+}
+
+// Split text into plain and "@handle" parts so mentions can be highlighted
+export function splitMentions(text: string, handles: string[]): { text: string; mention: boolean }[] {
+  if (handles.length === 0) return [{ text, mention: false }]
+
+  const pattern = new RegExp(
+    `(@(?:${handles.map(escapeRegExp).join('|')}))(?![\\w.-])`,
+    'gi'
+  )
+  // With a single capture group, split() puts the matched mentions at odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, mention: index % 2 === 1 }))
+    .filter(part => part.text !== '')
+}
@@ -0,0 +1,63 @@
+/**
+ * Fractional ranks for manual ordering. Ranks are base-36 strings compared
+ * character by character, so a new rank can always be made between two
+ * others and moving a task only has to rewrite that one task.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+// `after` unset means no upper bound; `before` must sort below `after`
+function midpoint(before: string, after: string | undefined): string {
+  let prefix = ''
+  for (let i = 0; ; i++) {
+    const low = i < before.length ? DIGITS.indexOf(before[i]) : 0
+    const high = after !== undefined && i < after.length ? DIGITS.indexOf(after[i]) : DIGITS.length
+    if (low === high) {
+      prefix += DIGITS[low]
+      continue
+    }
+    if (high - low > 1) return prefix + DIGITS[Math.floor((low + high) / 2)]
+    // No room at this position: keep the lower digit and go one level deeper
+    return prefix + DIGITS[low] + midpoint(before.slice(i + 1), undefined)
+  }
+}
+
+export function rankBetween(before?: string, after?: string): string {
+  // Equal or crossed ranks can come from two people reordering at once
+  const upper = after && (!before || after > before) ? after : undefined
+  return midpoint(before ?? '', upper)
+}
+
+// Ascending, with unranked items last
+export function compareRanks(a: string | undefined, b: string | undefined): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * New ranks for moving `ordered[from]` to position `to`. Items sorted by
+ * `compareRanks` have their unranked ones at the end, so the first move
+ * below one of those also ranks the unranked items above it.
+ */
+export function reorderRanks<T extends { id: string; rank?: string }>(
+  ordered: T[],
+  from: number,
+  to: number
+): { id: string; rank: string }[] {
+  const list = ordered.map(item => ({ id: item.id, rank: item.rank }))
+  const [moved] = list.splice(from, 1)
+  list.splice(to, 0, moved)
+
+  const updates: { id: string; rank: string }[] = []
+  let previous: string | undefined
+  for (const item of list.slice(0, to)) {
+    if (!item.rank) {
+      item.rank = rankBetween(previous)
+      updates.push({ id: item.id, rank: item.rank })
+    }
+    previous = item.rank
+  }
+
+  updates.push({ id: moved.id, rank: rankBetween(previous, list[to + 1]?.rank) })
+  return updates
+}
@@ -0,0 +1,169 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+
+/**
+ * A subset of RFC 5545 recurrence rules, stored on tasks as an RRULE string
+ * such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10`.
+ */
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+  interval: number
+  // WEEKLY: days of the week, 0 = Sunday
+  byDay?: number[]
+  // MONTHLY: a fixed day of the month
+  byMonthDay?: number
+  // MONTHLY: the nth weekday of the month; nth = -1 means the last one
+  byWeekdayOfMonth?: { nth: number; weekday: number }
+  // Inclusive end date, yyyy-MM-dd
+  until?: string
+  // Total number of occurrences in the series
+  count?: number
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' }
+
+export const WEEKDAYS = [1, 2, 3, 4, 5]
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${rule.interval}`]
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => DAY_CODES[day]).join(',')}`)
+  }
+  if (rule.freq === 'MONTHLY' && rule.byWeekdayOfMonth) {
+    parts.push(`BYDAY=${rule.byWeekdayOfMonth.nth}${DAY_CODES[rule.byWeekdayOfMonth.weekday]}`)
+  } else if (rule.freq === 'MONTHLY' && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+// Returns null for anything this app does not know how to schedule
+export function parseRRule(value: string | undefined): RecurrenceRule | null {
+  if (!value) return null
+
+  const fields = Object.fromEntries(
+    value.replace(/^RRULE:/, '').split(';').map(part => part.split('=') as [string, string])
+  )
+  const freq = fields.FREQ
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, Number(fields.INTERVAL) || 1) }
+
+  if (fields.BYDAY) {
+    const days = fields.BYDAY.split(',')
+    const nthMatch = /^(-?\d)([A-Z]{2})$/.exec(days[0])
+    if (freq === 'MONTHLY' && nthMatch) {
+      rule.byWeekdayOfMonth = { nth: Number(nthMatch[1]), weekday: DAY_CODES.indexOf(nthMatch[2]) }
+    } else if (freq === 'WEEKLY') {
+      rule.byDay = days.map(day => DAY_CODES.indexOf(day)).filter(day => day >= 0).sort()
+    }
+  }
+  if (fields.BYMONTHDAY) rule.byMonthDay = Number(fields.BYMONTHDAY)
+  if (fields.UNTIL) {
+    rule.until = `${fields.UNTIL.slice(0, 4)}-${fields.UNTIL.slice(4, 6)}-${fields.UNTIL.slice(6, 8)}`
+  }
+  if (fields.COUNT) rule.count = Number(fields.COUNT)
+
+  return rule
+}
+
+function nthWeekdayOfMonth(month: Date, nth: number, weekday: number): Date {
+  const first = startOfMonth(month)
+  if (nth > 0) {
+    const offset = (weekday - first.getDay() + 7) % 7
+    const date = addDays(first, offset + (nth - 1) * 7)
+    // "Fifth Monday" style rules fall back to the last one in short months
+    return date.getMonth() === first.getMonth() ? date : addDays(date, -7)
+  }
+  const last = addDays(first, getDaysInMonth(first) - 1)
+  return addDays(last, -((last.getDay() - weekday + 7) % 7))
+}
+
+function withDayOfMonth(month: Date, day: number): Date {
+  const date = startOfMonth(month)
+  date.setDate(Math.min(day, getDaysInMonth(date)))
+  return date
+}
+
+/**
+ * The first date strictly after `from` that matches the rule, ignoring the
+ * series end (see `isWithinSeries`).
+ */
+export function nextOccurrence(rule: RecurrenceRule, from: Date): Date {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(from, rule.interval)
+
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) return addDays(from, 7 * rule.interval)
+
+      // Walk forward day by day, only accepting days in every `interval`-th week
+      const anchorWeek = startOfWeek(from)
+      for (let date = addDays(from, 1); ; date = addDays(date, 1)) {
+        const week = Math.floor(differenceInCalendarDays(startOfWeek(date), anchorWeek) / 7)
+        if (week % rule.interval === 0 && rule.byDay.includes(date.getDay())) return date
+      }
+    }
+
+    case 'MONTHLY': {
+      const month = addMonths(startOfMonth(from), rule.interval)
+      if (rule.byWeekdayOfMonth) {
+        const { nth, weekday } = rule.byWeekdayOfMonth
+        return nthWeekdayOfMonth(month, nth, weekday)
+      }
+      return withDayOfMonth(month, rule.byMonthDay ?? from.getDate())
+    }
+  }
+}
+
+// `occurrence` is the 1-based position of `date` within the series
+export function isWithinSeries(rule: RecurrenceRule, date: Date, occurrence: number): boolean {
+  if (rule.count && occurrence > rule.count) return false
+  if (rule.until && format(date, 'yyyy-MM-dd') > rule.until) return false
+  return true
+}
+
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq]
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  if (rule.freq === 'DAILY' && rule.interval === 1) text = 'Daily'
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    const isWeekdays = rule.interval === 1 && rule.byDay.join() === WEEKDAYS.join()
+    text = isWeekdays ? 'Every weekday' : `${text} on ${rule.byDay.map(day => DAY_NAMES[day]).join(', ')}`
+  }
+  if (rule.freq === 'MONTHLY' && rule.byWeekdayOfMonth) {
+    const { nth, weekday } = rule.byWeekdayOfMonth
+    text = `${text} on the ${ORDINALS[nth]} ${DAY_NAMES[weekday]}`
+  } else if (rule.freq === 'MONTHLY' && rule.byMonthDay) {
+    text = `${text} on day ${rule.byMonthDay}`
+  }
+
+  if (rule.until) text += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`
+  if (rule.count) text += `, ${rule.count} times`
+  return text
+}
+
+// Human readable summary of a stored RRULE string, or null when there is none
+export function describeRecurrence(value: string | undefined): string | null {
+  const rule = parseRRule(value)
+  return rule ? describeRRule(rule) : null
+}
+
+// Which occurrence of its weekday `date` is within its month (1-4, or -1 for a fifth)
+export function weekdayPosition(date: Date): number {
+  const nth = Math.ceil(date.getDate() / 7)
+  return nth > 4 ? -1 : nth
+}
@@ -0,0 +1,30 @@
+// Public URL of the deployed app, used for links in outgoing emails
+export const APP_URL = 'https://fully-functional-web-app-starter-tyzcly4d.sites.blink.new'
+
+export const routes = {
+  dashboard: '/',
+  tasks: '/tasks',
+  projects: '/projects',
+  team: '/team',
+  settings: '/settings',
+  profile: '/profile',
+  search: '/search',
+  trash: '/trash',
+} as const
+
+export const taskPath = (taskId: string) => `${routes.tasks}/${encodeURIComponent(taskId)}`
+
+export const projectPath = (projectId: string) => `${routes.projects}/${encodeURIComponent(projectId)}`
+
+// A task opened from its project's page, keeping the project's list next to it
+export const projectTaskPath = (projectId: string, taskId: string) =>
+  `${projectPath(projectId)}/tasks/${encodeURIComponent(taskId)}`
+
+export const searchPath = (query: string) => `${routes.search}?q=${encodeURIComponent(query)}`
+
+// Task list with the filters of a saved view, `query` being its URL query string
+export const viewPath = (query: string) => (query ? `${routes.tasks}?${query}` : routes.tasks)
+
+export const taskUrl = (taskId: string) => `${APP_URL}${taskPath(taskId)}`
+
+export const viewUrl = (query: string) => `${APP_URL}${viewPath(query)}`
@@ -0,0 +1,61 @@
+import { escapeRegExp } from './utils'
+import type { Comment, Project, Task, TeamMember } from '../data'
+
+export interface SearchIndex {
+  tasks: Task[]
+  projects: Project[]
+  comments: Comment[]
+  members: TeamMember[]
+}
+
+export interface SearchResults {
+  tasks: Task[]
+  projects: Project[]
+  comments: Comment[]
+  members: TeamMember[]
+}
+
+// Whitespace separated words of the query; every one of them has to match
+export const searchTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).filter(Boolean)
+
+function matches(terms: string[], ...fields: (string | undefined)[]): boolean {
+  const text = fields.filter(Boolean).join(' ').toLowerCase()
+  return terms.every(term => text.includes(term))
+}
+
+export function search(index: SearchIndex, query: string): SearchResults {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return { tasks: [], projects: [], comments: [], members: [] }
+
+  return {
+    tasks: index.tasks.filter(task => matches(terms, task.title, task.description)),
+    projects: index.projects.filter(project => matches(terms, project.name, project.description)),
+    comments: index.comments.filter(comment => matches(terms, comment.body)),
+    members: index.members.filter(member => matches(terms, member.display_name, member.email)),
+  }
+}
+
+// Split text into plain and matching parts so search terms can be highlighted
+export function highlightMatches(text: string, query: string): { text: string; match: boolean }[] {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return [{ text, match: false }]
+
+  // Longest first, so "plan" wins over "pl" when both are terms
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp)
+  const pattern = new RegExp(`(${alternatives.join('|')})`, 'gi')
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter(part => part.text !== '')
+}
+
+// A window of `text` around the first match, for long comment bodies
+export function excerpt(text: string, query: string, radius = 60): string {
+  const [first] = searchTerms(query)
+  const index = first ? text.toLowerCase().indexOf(first) : -1
+  if (index <= radius) return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text
+
+  const end = index + first.length + radius
+  return `…${text.slice(index - radius, end)}${end < text.length ? '…' : ''}`
+}
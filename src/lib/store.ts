@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from 'react'
+
+/**
+ * State kept at module level and shared by every component that reads it, for
+ * data shown in several places at once (saved views, labels). `load` runs
+ * `fetch` unless a load is already in flight, so components mounting together
+ * share one request.
+ */
+export function createStore<T extends object>(initial: T, fetch: () => Promise<void>) {
+  let state = initial
+  const listeners = new Set<() => void>()
+  let pendingLoad: Promise<void> | null = null
+
+  const getState = () => state
+
+  const setState = (next: Partial<T>) => {
+    state = { ...state, ...next }
+    listeners.forEach(listener => listener())
+  }
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const load = () => {
+    pendingLoad ??= fetch().finally(() => {
+      pendingLoad = null
+    })
+    return pendingLoad
+  }
+
+  const useStore = () => useSyncExternalStore(subscribe, getState)
+
+  return { getState, setState, load, useStore }
+}
@@ -0,0 +1,44 @@
+import { CheckSquare, Clock, AlertCircle } from 'lucide-react'
+import type { StatusCategory } from '../data'
+
+// "1 task", "3 tasks"
+export const countTasks = (count: number) => `${count} ${count === 1 ? 'task' : 'tasks'}`
+
+export const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high': return 'bg-red-100 text-red-800 border-red-200'
+    case 'medium': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
+    case 'low': return 'bg-green-100 text-green-800 border-green-200'
+    default: return 'bg-gray-100 text-gray-800 border-gray-200'
+  }
+}
+
+// Statuses are colored by category, so custom statuses fit in without colors of their own
+export const getStatusColor = (category: StatusCategory) => {
+  switch (category) {
+    case 'done': return 'bg-green-100 text-green-800 border-green-200'
+    case 'active': return 'bg-blue-100 text-blue-800 border-blue-200'
+    case 'not_started': return 'bg-gray-100 text-gray-800 border-gray-200'
+    default: return 'bg-gray-100 text-gray-800 border-gray-200'
+  }
+}
+
+export const getStatusIcon = (category: StatusCategory) => {
+  switch (category) {
+    case 'done': return <CheckSquare className="w-4 h-4" />
+    case 'active': return <Clock className="w-4 h-4" />
+    case 'not_started': return <AlertCircle className="w-4 h-4" />
+    default: return <AlertCircle className="w-4 h-4" />
+  }
+}
+
+// "1.5h"; empty without an estimate
+export const formatEstimate = (hours?: number) => hours === undefined ? '' : `${hours}h`
+
+// Hours typed into an estimate field: undefined when cleared, null when not a valid amount
+export function parseEstimate(text: string): number | undefined | null {
+  const trimmed = text.trim().replace(/h$/i, '')
+  if (!trimmed) return undefined
+  const hours = Number(trimmed)
+  return Number.isFinite(hours) && hours >= 0 ? hours : null
+}
@@ -0,0 +1,38 @@
+import type { StatusCategory, Task } from '../data'
+
+// 'all' turns a filter off; `project` and `label` also take 'none' for tasks without one.
+// `status` is a status id, or a whole category (see `categoryFilter`) when tasks span workflows.
+export interface TaskFilters {
+  status: string
+  priority: string
+  project: string
+  label: string
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = { status: 'all', priority: 'all', project: 'all', label: 'all' }
+
+export const hasTaskFilters = (filters: TaskFilters) =>
+  filters.status !== 'all' || filters.priority !== 'all' || filters.project !== 'all' || filters.label !== 'all'
+
+const CATEGORY_PREFIX = 'category:'
+
+export const categoryFilter = (category: StatusCategory) => `${CATEGORY_PREFIX}${category}`
+
+function matchesStatus(task: Task, status: string): boolean {
+  if (status === 'all') return true
+  return status.startsWith(CATEGORY_PREFIX)
+    ? task.status_category === status.slice(CATEGORY_PREFIX.length)
+    : task.status === status
+}
+
+function matchesLabel(task: Task, label: string): boolean {
+  if (label === 'all') return true
+  return label === 'none' ? task.label_ids.length === 0 : task.label_ids.includes(label)
+}
+
+export function matchesTaskFilters(task: Task, filters: TaskFilters): boolean {
+  return matchesStatus(task, filters.status) &&
+    (filters.priority === 'all' || task.priority === filters.priority) &&
+    (filters.project === 'all' || (task.project_id ?? 'none') === filters.project) &&
+    matchesLabel(task, filters.label)
+}
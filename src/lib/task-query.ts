@@ -0,0 +1,378 @@
+import { addDays, format, isValid, parseISO, startOfDay } from 'date-fns'
+import {
+  isOverdue,
+  DEFAULT_WORKFLOW,
+  STATUS_CATEGORIES,
+  type Project,
+  type Task,
+  type TaskLabel,
+  type TaskPriority,
+} from '../data'
+
+/**
+ * The filter language typed into the task search box, e.g.
+ * `status:todo,in_progress priority:high assignee:me due:<7d project:"Website" label:bug -priority:low`.
+ * Words without a field match the title and description, and a leading "-"
+ * negates any clause. `status:` takes status ids such as in_review as well as
+ * the categories not_started, active and done.
+ */
+export const QUERY_FIELDS = ['status', 'priority', 'assignee', 'project', 'label', 'due'] as const
+export type QueryField = typeof QUERY_FIELDS[number]
+
+const DEFAULT_STATUS_VALUES = [...DEFAULT_WORKFLOW.map(status => status.id), ...STATUS_CATEGORIES.map(c => c.value)]
+const PRIORITY_VALUES: TaskPriority[] = ['low', 'medium', 'high']
+const DUE_KEYWORDS = new Map([['yesterday', -1], ['today', 0], ['tomorrow', 1]])
+
+export type DueComparison = '<' | '<=' | '>' | '>=' | '='
+
+export type DueValue =
+  // `days` is counted from today, so due:<7d is { op: '<', days: 7 }
+  | { type: 'relative'; op: DueComparison; days: number }
+  | { type: 'date'; op: DueComparison; date: string }
+  | { type: 'none' }
+  | { type: 'overdue' }
+
+export type QueryClause =
+  | { field: 'text'; negated: boolean; text: string }
+  // Status ids or status categories
+  | { field: 'status'; negated: boolean; values: string[] }
+  | { field: 'priority'; negated: boolean; values: TaskPriority[] }
+  // "me", "none", or an email or email handle
+  | { field: 'assignee'; negated: boolean; values: string[] }
+  // Project names, or "none"
+  | { field: 'project'; negated: boolean; values: string[] }
+  // Label names, or "none"
+  | { field: 'label'; negated: boolean; values: string[] }
+  | { field: 'due'; negated: boolean; value: DueValue }
+
+// `start` and `end` locate the offending text in the query string
+export interface QueryError {
+  message: string
+  start: number
+  end: number
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[]
+  errors: QueryError[]
+}
+
+interface Token {
+  start: number
+  end: number
+  negated: boolean
+  field?: string
+  value: string
+}
+
+const unquote = (value: string) => value.replace(/"/g, '')
+
+const quoteIfNeeded = (value: string) => (/[\s,:]/.test(value) ? `"${value}"` : value)
+
+function indexOutsideQuotes(text: string, char: string): number {
+  let inQuotes = false
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') inQuotes = !inQuotes
+    else if (text[i] === char && !inQuotes) return i
+  }
+  return -1
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let rest = text
+  for (let index = indexOutsideQuotes(rest, separator); index >= 0; index = indexOutsideQuotes(rest, separator)) {
+    parts.push(rest.slice(0, index))
+    rest = rest.slice(index + 1)
+  }
+  return [...parts, rest]
+}
+
+function toToken(raw: string, start: number, end: number): Token {
+  const negated = raw.length > 1 && raw.startsWith('-')
+  const body = negated ? raw.slice(1) : raw
+  const colon = indexOutsideQuotes(body, ':')
+  // Only a bare word before the colon is a field; quote text such as "10:30" to search for it
+  if (colon > 0 && /^[a-z]+$/i.test(body.slice(0, colon))) {
+    return { start, end, negated, field: body.slice(0, colon).toLowerCase(), value: body.slice(colon + 1) }
+  }
+  return { start, end, negated, value: body }
+}
+
+// Whitespace separated tokens; whitespace inside double quotes does not split
+function tokenize(input: string): { tokens: Token[]; errors: QueryError[] } {
+  const tokens: Token[] = []
+  const errors: QueryError[] = []
+
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    let inQuotes = false
+    while (i < input.length && (inQuotes || !/\s/.test(input[i]))) {
+      if (input[i] === '"') inQuotes = !inQuotes
+      i++
+    }
+    if (inQuotes) errors.push({ message: 'Missing closing quote', start, end: i })
+    tokens.push(toToken(input.slice(start, i), start, i))
+  }
+
+  return { tokens, errors }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1))
+      previous = current
+    }
+  }
+  return row[b.length]
+}
+
+const closest = (value: string, options: readonly string[]) =>
+  options.find(option => option.startsWith(value) || editDistance(value, option) <= 2)
+
+const listOptions = (options: readonly string[]) =>
+  `${options.slice(0, -1).join(', ')} or ${options[options.length - 1]}`
+
+function parseDue(value: string): DueValue | null {
+  const text = value.toLowerCase()
+  if (text === 'none') return { type: 'none' }
+  if (text === 'overdue') return { type: 'overdue' }
+
+  const [, op = '=', rest] = /^(<=|>=|<|>|=)?(.*)$/.exec(text) ?? []
+  const comparison = op as DueComparison
+
+  const keywordDays = DUE_KEYWORDS.get(rest)
+  if (keywordDays !== undefined) return { type: 'relative', op: comparison, days: keywordDays }
+
+  const relative = /^(-?\d+)([dw])$/.exec(rest)
+  if (relative) {
+    const amount = Number(relative[1])
+    return { type: 'relative', op: comparison, days: relative[2] === 'w' ? amount * 7 : amount }
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(rest) && isValid(parseISO(rest))) {
+    return { type: 'date', op: comparison, date: rest }
+  }
+  return null
+}
+
+interface KnownNames {
+  projectNames?: string[]
+  labelNames?: string[]
+  // Ids of the statuses of every workflow in use; the default workflow's otherwise
+  statusIds?: string[]
+}
+
+function parseClause(token: Token, known: KnownNames): QueryClause | QueryError {
+  const { start, end, negated } = token
+  const error = (message: string): QueryError => ({ message, start, end })
+
+  if (!token.field) return { field: 'text', negated, text: unquote(token.value) }
+
+  const field = token.field
+  if (!(QUERY_FIELDS as readonly string[]).includes(field)) {
+    const suggestion = closest(field, QUERY_FIELDS)
+    return error(suggestion
+      ? `Unknown field "${field}". Did you mean "${suggestion}"?`
+      : `Unknown field "${field}". Use ${listOptions(QUERY_FIELDS)}`)
+  }
+
+  const values = splitOutsideQuotes(token.value, ',').map(unquote).map(v => v.trim()).filter(Boolean)
+  if (values.length === 0) return error(`"${field}:" needs a value, e.g. ${field}:${suggestValues(field as QueryField)[0]}`)
+
+  switch (field as QueryField) {
+    case 'status': {
+      const statuses = values.map(v => v.toLowerCase().replace(/[\s-]+/g, '_'))
+      const ids = [...new Set([...DEFAULT_STATUS_VALUES, ...(known.statusIds ?? [])])]
+      const invalid = statuses.find(v => !ids.includes(v))
+      if (invalid) return error(`Unknown status "${invalid}". Use ${listOptions(ids)}`)
+      return { field: 'status', negated, values: statuses }
+    }
+    case 'priority': {
+      const priorities = values.map(v => v.toLowerCase())
+      const invalid = priorities.find(v => !(PRIORITY_VALUES as string[]).includes(v))
+      if (invalid) return error(`Unknown priority "${invalid}". Use ${listOptions(PRIORITY_VALUES)}`)
+      return { field: 'priority', negated, values: priorities as TaskPriority[] }
+    }
+    case 'assignee':
+      return { field: 'assignee', negated, values: values.map(v => v.toLowerCase()) }
+    case 'project': {
+      const names = known.projectNames?.map(name => name.toLowerCase())
+      const unknown = names && values.find(v => v.toLowerCase() !== 'none' && !names.includes(v.toLowerCase()))
+      if (unknown) return error(`No project named "${unknown}"`)
+      return { field: 'project', negated, values: values.map(v => v.toLowerCase()) }
+    }
+    case 'label': {
+      const names = known.labelNames?.map(name => name.toLowerCase())
+      const unknown = names && values.find(v => v.toLowerCase() !== 'none' && !names.includes(v.toLowerCase()))
+      if (unknown) return error(`No label named "${unknown}"`)
+      return { field: 'label', negated, values: values.map(v => v.toLowerCase()) }
+    }
+    case 'due': {
+      const due = values.length === 1 ? parseDue(values[0]) : null
+      if (!due) return error(`Invalid due date "${token.value}". Try due:today, due:<7d or due:>2025-01-31`)
+      return { field: 'due', negated, value: due }
+    }
+  }
+}
+
+/**
+ * Parses a query into clauses. Malformed clauses are reported in `errors` and
+ * left out, so the rest of the query still filters. `projectNames` and
+ * `labelNames` enable the unknown project and label checks.
+ */
+export function parseTaskQuery(input: string, options: KnownNames = {}): ParsedQuery {
+  const { tokens, errors } = tokenize(input)
+  const clauses: QueryClause[] = []
+
+  for (const token of tokens) {
+    const result = parseClause(token, options)
+    if ('message' in result) errors.push(result)
+    else clauses.push(result)
+  }
+
+  return { clauses, errors: errors.sort((a, b) => a.start - b.start) }
+}
+
+export interface QueryContext {
+  userId?: string
+  projects: Project[]
+  labels?: TaskLabel[]
+  now?: Date
+}
+
+function compareDates(a: string, op: DueComparison, b: string): boolean {
+  switch (op) {
+    case '<': return a < b
+    case '<=': return a <= b
+    case '>': return a > b
+    case '>=': return a >= b
+    case '=': return a === b
+  }
+}
+
+function matchesDue(task: Task, due: DueValue, now: Date): boolean {
+  if (due.type === 'none') return !task.due_date
+  if (due.type === 'overdue') return isOverdue(task, now)
+  if (!task.due_date) return false
+
+  const target = due.type === 'date' ? due.date : format(addDays(startOfDay(now), due.days), 'yyyy-MM-dd')
+  return compareDates(task.due_date.slice(0, 10), due.op, target)
+}
+
+function matchesClause(task: Task, clause: QueryClause, context: QueryContext): boolean {
+  switch (clause.field) {
+    case 'text': {
+      const text = clause.text.toLowerCase()
+      return task.title.toLowerCase().includes(text) || !!task.description?.toLowerCase().includes(text)
+    }
+    case 'status':
+      return clause.values.includes(task.status) || clause.values.includes(task.status_category)
+    case 'priority':
+      return clause.values.includes(task.priority)
+    case 'assignee':
+      return clause.values.some(value => {
+        if (value === 'me') return !!context.userId && task.assignee_id === context.userId
+        if (value === 'none') return !task.assignee_id
+        const email = task.assignee_email?.toLowerCase()
+        return !!email && (email === value || email.split('@')[0] === value)
+      })
+    case 'project': {
+      const name = context.projects.find(p => p.id === task.project_id)?.name.toLowerCase()
+      return clause.values.some(value => (value === 'none' ? !task.project_id : name === value))
+    }
+    case 'label': {
+      const names = (context.labels ?? [])
+        .filter(label => task.label_ids.includes(label.id))
+        .map(label => label.name.toLowerCase())
+      return clause.values.some(value => (value === 'none' ? names.length === 0 : names.includes(value)))
+    }
+    case 'due':
+      return matchesDue(task, clause.value, context.now ?? new Date())
+  }
+}
+
+export function matchesTaskQuery(task: Task, clauses: QueryClause[], context: QueryContext): boolean {
+  return clauses.every(clause => matchesClause(task, clause, context) !== clause.negated)
+}
+
+export interface QuerySuggestionContext {
+  projectNames: string[]
+  labelNames?: string[]
+  statusIds?: string[]
+  // Email handles of people tasks are assigned to
+  assignees: string[]
+}
+
+export interface QuerySuggestion {
+  label: string
+  // Replaces the query text between `start` and `end` of the suggestion result
+  insert: string
+}
+
+function suggestValues(field: QueryField, context?: QuerySuggestionContext): string[] {
+  switch (field) {
+    case 'status': return [...new Set([...DEFAULT_STATUS_VALUES, ...(context?.statusIds ?? [])])]
+    case 'priority': return ['high', 'medium', 'low']
+    case 'assignee': return ['me', 'none', ...(context?.assignees ?? [])]
+    case 'project': return ['none', ...(context?.projectNames ?? [])]
+    case 'label': return ['none', ...(context?.labelNames ?? [])]
+    case 'due': return ['today', 'tomorrow', 'overdue', 'none', '<7d', '<14d', '>today']
+  }
+}
+
+/**
+ * Completions for the token under the caret: field names while typing a bare
+ * word, values after "field:". The caller replaces `start`-`end` with `insert`.
+ */
+export function getQuerySuggestions(
+  input: string,
+  caret: number,
+  context: QuerySuggestionContext
+): { start: number; end: number; suggestions: QuerySuggestion[] } {
+  const token = tokenize(input).tokens.find(t => t.start <= caret && caret <= t.end)
+  const start = token?.start ?? caret
+  const end = token?.end ?? caret
+  const typed = input.slice(start, caret)
+  const negation = typed.startsWith('-') ? '-' : ''
+  const body = typed.slice(negation.length)
+
+  const colon = indexOutsideQuotes(body, ':')
+  if (colon < 0) {
+    const prefix = body.toLowerCase()
+    if (!prefix) return { start, end, suggestions: [] }
+    return {
+      start,
+      end,
+      suggestions: QUERY_FIELDS
+        .filter(field => field.startsWith(prefix))
+        .map(field => ({ label: `${field}:`, insert: `${negation}${field}:` })),
+    }
+  }
+
+  const field = body.slice(0, colon).toLowerCase() as QueryField
+  if (!QUERY_FIELDS.includes(field)) return { start, end, suggestions: [] }
+
+  // Only the value after the last comma is completed; earlier ones are kept as typed
+  const valueText = body.slice(colon + 1)
+  const lastComma = valueText.lastIndexOf(',')
+  const kept = valueText.slice(0, lastComma + 1)
+  const current = unquote(valueText.slice(lastComma + 1)).toLowerCase()
+
+  const suggestions = suggestValues(field, context)
+    .filter(value => value.toLowerCase().includes(current) && value.toLowerCase() !== current)
+    .slice(0, 8)
+    .map(value => ({ label: value, insert: `${negation}${field}:${kept}${quoteIfNeeded(value)} ` }))
+
+  return { start, end, suggestions }
+}
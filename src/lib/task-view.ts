@@ -0,0 +1,207 @@
+import { endOfWeek, format, startOfDay } from 'date-fns'
+import { DEFAULT_TASK_FILTERS, type TaskFilters } from './task-filters'
+import { compareRanks } from './rank'
+import { DEFAULT_WORKFLOW, placeStatus, type Project, type Task, type WorkflowStatus } from '../data'
+
+export type TaskSort = 'manual' | 'created' | 'updated' | 'due' | 'priority' | 'status' | 'title' | 'assignee'
+export type TaskGroupBy = 'none' | 'status' | 'priority' | 'project' | 'assignee' | 'due'
+export type TaskLayout = 'list' | 'board' | 'table' | 'calendar' | 'timeline'
+
+export const SORT_OPTIONS: { value: TaskSort; label: string }[] = [
+  { value: 'created', label: 'Newest' },
+  { value: 'manual', label: 'Manual' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'due', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'status', label: 'Status' },
+  { value: 'title', label: 'Title' },
+  { value: 'assignee', label: 'Assignee' },
+]
+
+export const GROUP_OPTIONS: { value: TaskGroupBy; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'project', label: 'Project' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'due', label: 'Due date' },
+]
+
+/**
+ * Everything that decides how the task list looks. It round-trips through the
+ * URL query string, which is also what a saved view stores.
+ */
+export interface TaskViewState {
+  query: string
+  filters: TaskFilters
+  sort: TaskSort
+  groupBy: TaskGroupBy
+  // Unset means the user's preferred layout
+  layout?: TaskLayout
+}
+
+const isSort = (value: string | null): value is TaskSort =>
+  SORT_OPTIONS.some(option => option.value === value)
+
+const isGroupBy = (value: string | null): value is TaskGroupBy =>
+  GROUP_OPTIONS.some(option => option.value === value)
+
+const isLayout = (value: string | null): value is TaskLayout =>
+  value === 'list' || value === 'board' || value === 'table' || value === 'calendar' || value === 'timeline'
+
+export function readViewParams(params: URLSearchParams): TaskViewState {
+  const layout = params.get('layout')
+  const sort = params.get('sort')
+  const groupBy = params.get('group')
+  return {
+    query: params.get('q') ?? '',
+    filters: {
+      status: params.get('status') ?? DEFAULT_TASK_FILTERS.status,
+      priority: params.get('priority') ?? DEFAULT_TASK_FILTERS.priority,
+      project: params.get('project') ?? DEFAULT_TASK_FILTERS.project,
+      label: params.get('label') ?? DEFAULT_TASK_FILTERS.label,
+    },
+    sort: isSort(sort) ? sort : 'created',
+    groupBy: isGroupBy(groupBy) ? groupBy : 'none',
+    layout: isLayout(layout) ? layout : undefined,
+  }
+}
+
+// Defaults are left out and keys always come in the same order, so equal views give equal strings
+export function writeViewParams(view: TaskViewState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (view.query) params.set('q', view.query)
+  for (const key of ['status', 'priority', 'project', 'label'] as const) {
+    if (view.filters[key] !== DEFAULT_TASK_FILTERS[key]) params.set(key, view.filters[key])
+  }
+  if (view.sort !== 'created') params.set('sort', view.sort)
+  if (view.groupBy !== 'none') params.set('group', view.groupBy)
+  if (view.layout) params.set('layout', view.layout)
+  return params
+}
+
+const PRIORITY_RANK = { high: 0, medium: 1, low: 2 }
+// Across projects, statuses sort by category
+const STATUS_RANK = { not_started: 0, active: 1, done: 2 }
+
+// Ascending, with missing values last
+function byOptional(a: string | undefined, b: string | undefined): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0
+  return a.localeCompare(b)
+}
+
+export function sortTasks(tasks: Task[], sort: TaskSort): Task[] {
+  const newestFirst = (a: Task, b: Task) => b.created_at.localeCompare(a.created_at)
+
+  return [...tasks].sort((a, b) => {
+    switch (sort) {
+      case 'manual':
+        return compareRanks(a.rank, b.rank) || newestFirst(a, b)
+      case 'created':
+        return newestFirst(a, b)
+      case 'updated':
+        return b.updated_at.localeCompare(a.updated_at)
+      case 'due':
+        return byOptional(a.due_date, b.due_date) || newestFirst(a, b)
+      case 'priority':
+        return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || newestFirst(a, b)
+      case 'status':
+        return STATUS_RANK[a.status_category] - STATUS_RANK[b.status_category] || newestFirst(a, b)
+      case 'title':
+        return a.title.localeCompare(b.title)
+      case 'assignee':
+        return byOptional(a.assignee_email, b.assignee_email) || newestFirst(a, b)
+    }
+  })
+}
+
+export interface TaskGroup {
+  // Stable within one `groupBy`, used to remember collapsed groups
+  key: string
+  label: string
+  color?: string
+  tasks: Task[]
+}
+
+const DUE_BUCKETS = [
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'today', label: 'Today' },
+  { key: 'week', label: 'This week' },
+  { key: 'later', label: 'Later' },
+  // Completed tasks whose due date has passed are not overdue
+  { key: 'past', label: 'Past' },
+  { key: 'none', label: 'No date' },
+]
+
+export function dueBucket(task: Task, now = new Date()): string {
+  if (!task.due_date) return 'none'
+  const due = task.due_date.slice(0, 10)
+  const today = format(startOfDay(now), 'yyyy-MM-dd')
+  if (due < today) return task.status_category === 'done' ? 'past' : 'overdue'
+  if (due === today) return 'today'
+  if (due <= format(endOfWeek(now), 'yyyy-MM-dd')) return 'week'
+  return 'later'
+}
+
+/**
+ * Splits already sorted tasks into groups, keeping their order within each
+ * group. Empty groups are left out. Status groups follow `statuses`, the
+ * default workflow unless given; tasks from other workflows join the group of
+ * their category.
+ */
+export function groupTasks(
+  tasks: Task[],
+  groupBy: TaskGroupBy,
+  context: { projects: Project[]; statuses?: WorkflowStatus[]; now?: Date }
+): TaskGroup[] {
+  if (groupBy === 'none') return [{ key: 'all', label: 'All tasks', tasks }]
+
+  let groups: Omit<TaskGroup, 'tasks'>[]
+  let keyOf: (task: Task) => string
+
+  switch (groupBy) {
+    case 'status': {
+      const statuses = context.statuses ?? DEFAULT_WORKFLOW
+      groups = statuses.map(status => ({ key: status.id, label: status.name }))
+      keyOf = task => placeStatus(statuses, task).id
+      break
+    }
+    case 'priority':
+      groups = [
+        { key: 'high', label: 'High' },
+        { key: 'medium', label: 'Medium' },
+        { key: 'low', label: 'Low' },
+      ]
+      keyOf = task => task.priority
+      break
+    case 'project': {
+      const known = new Set(context.projects.map(project => project.id))
+      groups = [
+        ...[...context.projects]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(project => ({ key: project.id, label: project.name, color: project.color })),
+        { key: 'none', label: 'No project' },
+      ]
+      // Projects the user cannot see, e.g. on tasks assigned by others, count as none
+      keyOf = task => (task.project_id && known.has(task.project_id) ? task.project_id : 'none')
+      break
+    }
+    case 'assignee': {
+      const emails = [...new Set(tasks.flatMap(task => task.assignee_email ? [task.assignee_email] : []))]
+      groups = [
+        ...emails.sort().map(email => ({ key: email, label: email.split('@')[0] })),
+        { key: 'none', label: 'Unassigned' },
+      ]
+      keyOf = task => task.assignee_email ?? 'none'
+      break
+    }
+    case 'due':
+      groups = DUE_BUCKETS
+      keyOf = task => dueBucket(task, context.now)
+      break
+  }
+
+  return groups
+    .map(group => ({ ...group, tasks: tasks.filter(task => keyOf(task) === group.key) }))
+    .filter(group => group.tasks.length > 0)
+}